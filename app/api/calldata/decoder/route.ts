@@ -3,6 +3,7 @@ import {
   calldataDecoderRequestSchema,
 } from "@/data/schemas";
 import { decodeWithAddress, decodeWithSelector } from "@/lib/decoder";
+import { decodeReturnData } from "@/lib/returnDataDecoder";
 import { stringify } from "viem";
 
 export const POST = async (request: Request) => {
@@ -25,11 +26,38 @@ export const POST = async (request: Request) => {
     );
   }
 
+  if (body.mode === "returnData") {
+    const decoded = await decodeReturnData({
+      data: body.data!,
+      calldata: body.calldata,
+      address: body.address,
+      chainId: body.chainId,
+    });
+    if (!decoded) {
+      return new Response(
+        JSON.stringify({
+          error: "Failed to decode return data",
+        }),
+        {
+          status: 500,
+          headers: {
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+    return new Response(stringify(decoded), {
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
   // determine which function should be used to decode the calldata
   const shouldDecodeWithAddress = !!body.address && !!body.chainId;
   if (shouldDecodeWithAddress) {
     const decoded = await decodeWithAddress({
-      calldata: body.calldata,
+      calldata: body.calldata!,
       // we can enforce that they exists because we're checking above
       address: body.address!,
       chainId: body.chainId!,
@@ -54,7 +82,7 @@ export const POST = async (request: Request) => {
       },
     });
   }
-  const decoded = await decodeWithSelector({ calldata: body.calldata });
+  const decoded = await decodeWithSelector({ calldata: body.calldata! });
   if (!decoded) {
     return new Response(
       JSON.stringify({
@@ -63,6 +63,7 @@ import frameSdk, { Context } from "@farcaster/frame-sdk";
 // Import the SessionRequestModal for handling transactions and signatures
 import SessionRequestModal from "../wallet/bridge/components/SessionRequestModal";
 import { SessionRequest } from "../wallet/bridge/types";
+import { getRiskWarnings } from "../wallet/bridge/risk";
 import { SafeDappInfo } from "@/types/safeDapps";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { faHeart } from "@fortawesome/free-solid-svg-icons";
@@ -1085,7 +1086,11 @@ export default function WalletBridgeAppsPage() {
           },
         };
 
-        if (skipDecoder) {
+        // Risky approvals and permits are always confirmed in the modal
+        if (
+          skipDecoder &&
+          getRiskWarnings(sessionRequest.params.request).length === 0
+        ) {
           try {
             // Check if chain switch is needed
             const requestedChainIdStr =
@@ -1296,7 +1301,11 @@ export default function WalletBridgeAppsPage() {
           },
         };
 
-        if (skipDecoder) {
+        // Risky approvals and permits are always confirmed in the modal
+        if (
+          skipDecoder &&
+          getRiskWarnings(sessionRequest.params.request).length === 0
+        ) {
           try {
             const signature = await walletClient.signTypedData({
               account: address as `0x${string}`,
@@ -18,6 +18,7 @@ import subdomains from "@/subdomains";
 const SidebarItems: SidebarItem[] = [
   { name: "Wallet Bridge", path: "bridge" },
   { name: "Signatures", path: "signatures" },
+  { name: "Smart Wallet Owners", path: "owners" },
 ];
 
 interface LayoutParams {
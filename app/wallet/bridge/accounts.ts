@@ -0,0 +1,125 @@
+import { Address, getAddress, isAddress, isAddressEqual } from "viem";
+import type { Connection } from "@wagmi/core";
+import { headlessCSWConnector } from "../headless-csw-connector";
+import { impersonatorConnectorId } from "@/utils/impersonatorConnector/connector";
+import { SessionRequest, WalletKitInstance } from "./types";
+
+export type BridgeAccount = {
+  address: Address;
+  kind: "wallet" | "smart-wallet" | "impersonated";
+  connectorName: string;
+  /** wagmi connection that signs for the account */
+  connectorUid: string;
+};
+
+// Every account of the wagmi connections can be attached to sessions
+export const getBridgeAccounts = (
+  connections: readonly Connection[]
+): BridgeAccount[] => {
+  const accounts: BridgeAccount[] = [];
+
+  for (const { connector, accounts: addresses } of connections) {
+    for (const address of addresses) {
+      if (accounts.some((account) => isAddressEqual(account.address, address)))
+        continue;
+
+      accounts.push({
+        address,
+        kind:
+          connector.type === headlessCSWConnector.type
+            ? "smart-wallet"
+            : connector.id === impersonatorConnectorId
+            ? "impersonated"
+            : "wallet",
+        connectorName: connector.name,
+        connectorUid: connector.uid,
+      });
+    }
+  }
+
+  return accounts;
+};
+
+// Namespace accounts are `eip155:<chainId>:<address>`, the first address is
+// the one the dapp sees
+export const getSessionAddresses = (session: any): Address[] => {
+  const addresses: Address[] = [];
+  for (const account of (session?.namespaces.eip155?.accounts ??
+    []) as string[]) {
+    const address = getAddress(account.split(":")[2]);
+    if (!addresses.includes(address)) addresses.push(address);
+  }
+  return addresses;
+};
+
+export const getSessionChains = (session: any): string[] =>
+  Array.from(
+    new Set(
+      ((session?.namespaces.eip155?.accounts ?? []) as string[]).map(
+        (account) => account.split(":").slice(0, 2).join(":")
+      )
+    )
+  );
+
+// Replaces the session's accounts and tells the dapp, selected account first
+export const updateSessionAddresses = async (
+  walletKit: WalletKitInstance,
+  session: any,
+  addresses: Address[],
+  chainId?: number
+) => {
+  const chains = getSessionChains(session);
+
+  await walletKit.updateSession({
+    topic: session.topic,
+    namespaces: {
+      ...session.namespaces,
+      eip155: {
+        ...session.namespaces.eip155,
+        accounts: chains.flatMap((chain) =>
+          addresses.map((address) => `${chain}:${address}`)
+        ),
+      },
+    },
+  });
+
+  await walletKit.emitSessionEvent({
+    topic: session.topic,
+    event: { name: "accountsChanged", data: addresses },
+    chainId: chains.includes(`eip155:${chainId}`)
+      ? `eip155:${chainId}`
+      : chains[0],
+  });
+};
+
+const toAddress = (value: unknown) =>
+  typeof value === "string" && isAddress(value) ? getAddress(value) : undefined;
+
+// The account a request has to be signed by, the session's selected account
+// when the dapp didn't name one
+export const getRequestAddress = (
+  request: SessionRequest,
+  session?: any
+): Address | undefined => {
+  const { method, params } = request.params.request;
+
+  let from: Address | undefined;
+  switch (method) {
+    case "eth_sendTransaction":
+    case "eth_signTransaction":
+    case "wallet_sendCalls":
+      from = toAddress(params[0]?.from);
+      break;
+    case "personal_sign":
+      from = toAddress(params[1]);
+      break;
+    case "eth_sign":
+    case "eth_signTypedData":
+    case "eth_signTypedData_v3":
+    case "eth_signTypedData_v4":
+      from = toAddress(params[0]);
+      break;
+  }
+
+  return from ?? getSessionAddresses(session)[0];
+};
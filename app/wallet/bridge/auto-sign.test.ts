@@ -0,0 +1,158 @@
+import {
+  WalletClient,
+  encodeFunctionData,
+  erc20Abi,
+  maxUint256,
+  stringToHex,
+} from "viem";
+import { describe, expect, it, vi } from "vitest";
+import {
+  AutoSignRule,
+  executeAutoSignRequest,
+  matchAutoSignRule,
+  parseSiweMessage,
+} from "./auto-sign";
+import { SessionRequest } from "./types";
+
+const address = "0x1111111111111111111111111111111111111111";
+const router = "0x2222222222222222222222222222222222222222";
+const other = "0x3333333333333333333333333333333333333333";
+
+const siweRule: AutoSignRule = { id: "1", type: "siwe" };
+const routerRule: AutoSignRule = {
+  id: "2",
+  type: "transaction",
+  contracts: [router],
+  maxValue: "1000",
+};
+
+const request = (
+  method: string,
+  params: any,
+  chainId = "eip155:1"
+): SessionRequest => ({
+  id: 1,
+  topic: "topic",
+  params: { request: { method, params }, chainId },
+});
+
+const siweMessage = (domain: string, account: string = address) =>
+  `${domain} wants you to sign in with your Ethereum account:\n${account}\n\nSign in\n\nURI: https://${domain}\nVersion: 1\nChain ID: 1\nNonce: 12345678`;
+
+const match = (rules: AutoSignRule[], sessionRequest: SessionRequest) =>
+  matchAutoSignRule({
+    rules,
+    request: sessionRequest,
+    dappUrl: "https://app.example.com",
+    address,
+    chainId: 1,
+  });
+
+describe("parseSiweMessage", () => {
+  it("reads the domain and address, with an optional scheme", () => {
+    expect(parseSiweMessage(siweMessage("App.Example.com"))).toEqual({
+      domain: "app.example.com",
+      address,
+    });
+    expect(
+      parseSiweMessage(siweMessage("https://app.example.com"))?.domain
+    ).toBe("app.example.com");
+    expect(parseSiweMessage("Sign this message")).toBeUndefined();
+  });
+});
+
+describe("matchAutoSignRule", () => {
+  it("matches SIWE messages for the session's domain and account", () => {
+    const message = stringToHex(siweMessage("app.example.com"));
+
+    expect(
+      match([siweRule], request("personal_sign", [message, address]))
+    ).toBe(siweRule);
+  });
+
+  it("matches and signs plain text SIWE messages as text", async () => {
+    const message = siweMessage("app.example.com");
+    const sessionRequest = request("personal_sign", [message, address]);
+    const signMessage = vi.fn(async () => "0x1234" as const);
+
+    expect(match([siweRule], sessionRequest)).toBe(siweRule);
+    await executeAutoSignRequest(
+      { signMessage } as unknown as WalletClient,
+      sessionRequest,
+      address
+    );
+    expect(signMessage).toHaveBeenCalledWith({ account: address, message });
+  });
+
+  it("rejects SIWE messages for another domain or account", () => {
+    expect(
+      match(
+        [siweRule],
+        request("personal_sign", [
+          stringToHex(siweMessage("evil.example.com")),
+          address,
+        ])
+      )
+    ).toBeUndefined();
+    expect(
+      match(
+        [siweRule],
+        request("personal_sign", [
+          stringToHex(siweMessage("app.example.com", other)),
+          address,
+        ])
+      )
+    ).toBeUndefined();
+  });
+
+  it("matches transactions to allowlisted contracts up to the max value", () => {
+    expect(
+      match(
+        [routerRule],
+        request("eth_sendTransaction", [{ to: router, value: "0x3e8" }])
+      )
+    ).toBe(routerRule);
+    expect(
+      match(
+        [routerRule],
+        request("eth_sendTransaction", [{ to: router, value: "0x3e9" }])
+      )
+    ).toBeUndefined();
+    expect(
+      match([routerRule], request("eth_sendTransaction", [{ to: other }]))
+    ).toBeUndefined();
+  });
+
+  it("leaves risky approvals to allowlisted contracts to the modal", () => {
+    const data = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: "approve",
+      args: [other, maxUint256],
+    });
+
+    expect(
+      match(
+        [routerRule],
+        request("eth_sendTransaction", [{ to: router, data }])
+      )
+    ).toBeUndefined();
+  });
+
+  it("leaves transactions on another chain to the modal", () => {
+    expect(
+      match(
+        [routerRule],
+        request("eth_sendTransaction", [{ to: router }], "eip155:8453")
+      )
+    ).toBeUndefined();
+  });
+
+  it("never matches other methods", () => {
+    expect(
+      match(
+        [siweRule, routerRule],
+        request("eth_signTypedData_v4", [address, "{}"])
+      )
+    ).toBeUndefined();
+  });
+});
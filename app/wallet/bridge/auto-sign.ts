@@ -0,0 +1,160 @@
+import {
+  Address,
+  Hex,
+  WalletClient,
+  hexToString,
+  isAddress,
+  isAddressEqual,
+  isHex,
+} from "viem";
+import { getRiskWarnings } from "./risk";
+import { SessionRequest } from "./types";
+
+export type AutoSignRule =
+  // Sign-In with Ethereum messages for the session's own domain
+  | { id: string; type: "siwe" }
+  // Transactions to allowlisted contracts, up to a value in wei
+  | { id: string; type: "transaction"; contracts: Address[]; maxValue: string };
+
+export type AutoSignLogEntry = {
+  timestamp: number;
+  topic: string;
+  dapp: string;
+  method: string;
+  rule: AutoSignRule["type"];
+  summary: string;
+  result?: string;
+  error?: string;
+};
+
+const RULES_STORAGE_KEY = "autoSignRules";
+const LOG_STORAGE_KEY = "autoSignLog";
+const MAX_LOG_ENTRIES = 500;
+
+// Rules are kept per session topic and dropped with the session
+const loadAllRules = (): Record<string, AutoSignRule[]> =>
+  JSON.parse(localStorage.getItem(RULES_STORAGE_KEY) ?? "{}");
+
+export const loadAutoSignRules = (topic: string) => loadAllRules()[topic] ?? [];
+
+export const saveAutoSignRules = (topic: string, rules: AutoSignRule[]) => {
+  const stored = loadAllRules();
+  if (rules.length) stored[topic] = rules;
+  else delete stored[topic];
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(stored));
+};
+
+export const loadAutoSignLog = (): AutoSignLogEntry[] =>
+  JSON.parse(localStorage.getItem(LOG_STORAGE_KEY) ?? "[]");
+
+// Newest first, returns the updated log
+export const appendAutoSignLog = (entry: AutoSignLogEntry) => {
+  const log = [entry, ...loadAutoSignLog()].slice(0, MAX_LOG_ENTRIES);
+  localStorage.setItem(LOG_STORAGE_KEY, JSON.stringify(log));
+  return log;
+};
+
+export const clearAutoSignLog = () => localStorage.removeItem(LOG_STORAGE_KEY);
+
+// EIP-4361 messages start with "<domain> wants you to sign in with your
+// Ethereum account:" followed by the address
+export const parseSiweMessage = (message: string) => {
+  const [header, address] = message.split("\n");
+  const match = header?.match(
+    /^(?:[a-z][a-z0-9+.-]*:\/\/)?(\S+) wants you to sign in with your Ethereum account:$/
+  );
+  if (!match || !address?.trim()) return undefined;
+  return { domain: match[1].toLowerCase(), address: address.trim() };
+};
+
+const getHost = (url: string) => {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+};
+
+const getPersonalSignMessage = (request: SessionRequest) => {
+  const { method, params } = request.params.request;
+  const message: string = method === "personal_sign" ? params[0] : params[1];
+  return isHex(message) ? hexToString(message) : message;
+};
+
+export const matchAutoSignRule = ({
+  rules,
+  request,
+  dappUrl,
+  address,
+  chainId,
+}: {
+  rules: AutoSignRule[];
+  request: SessionRequest;
+  dappUrl: string;
+  address: Address;
+  chainId: number | undefined;
+}) => {
+  const { method, params } = request.params.request;
+
+  // Risky approvals and permits are always confirmed in the modal, even to
+  // an allowlisted contract
+  if (getRiskWarnings(request.params.request).length > 0) return undefined;
+
+  return rules.find((rule) => {
+    if (rule.type === "siwe") {
+      if (method !== "personal_sign") return false;
+
+      const siwe = parseSiweMessage(getPersonalSignMessage(request));
+      return (
+        !!siwe &&
+        siwe.domain === getHost(dappUrl) &&
+        isAddress(siwe.address) &&
+        isAddressEqual(siwe.address as Address, address)
+      );
+    }
+
+    // Transactions on another chain need the modal to switch first
+    if (method !== "eth_sendTransaction") return false;
+    if (request.params.chainId !== `eip155:${chainId}`) return false;
+
+    const tx = params[0];
+    return (
+      isAddress(tx.to ?? "") &&
+      rule.contracts.some((contract) => isAddressEqual(contract, tx.to)) &&
+      BigInt(tx.value ?? 0) <= BigInt(rule.maxValue)
+    );
+  });
+};
+
+export const describeAutoSignRequest = (request: SessionRequest) => {
+  const { method, params } = request.params.request;
+  if (method === "eth_sendTransaction") {
+    return `${BigInt(params[0].value ?? 0).toString()} wei to ${params[0].to}`;
+  }
+  return getPersonalSignMessage(request).split("\n")[0];
+};
+
+export const executeAutoSignRequest = async (
+  walletClient: WalletClient,
+  request: SessionRequest,
+  address: Address
+): Promise<Hex> => {
+  const { method, params } = request.params.request;
+
+  if (method === "eth_sendTransaction") {
+    return walletClient.sendTransaction({
+      account: address,
+      chain: walletClient.chain,
+      to: params[0].to,
+      value: params[0].value ? BigInt(params[0].value) : undefined,
+      data: params[0].data,
+      gas: params[0].gas ? BigInt(params[0].gas) : undefined,
+    });
+  }
+
+  // Dapps can send the message as plain text instead of hex
+  return walletClient.signMessage({
+    account: address,
+    message: isHex(params[0]) ? { raw: params[0] } : params[0],
+  });
+};
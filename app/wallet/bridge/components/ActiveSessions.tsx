@@ -9,19 +9,29 @@ import {
   VStack,
 } from "@chakra-ui/react";
 import { chainIdToChain } from "@/data/common";
+import SessionAutoSignRules from "./SessionAutoSignRules";
+import SessionAccounts from "./SessionAccounts";
+import { WalletKitInstance } from "../types";
+import { BridgeAccount, getSessionChains } from "../accounts";
 
 interface ActiveSessionsProps {
+  walletKit: WalletKitInstance | null;
   isConnected: boolean;
   activeSessions: any[];
+  accounts: BridgeAccount[];
   chainId: number;
   disconnectSession: (topic: string) => Promise<void>;
+  onSessionsUpdated: () => void;
 }
 
 export default function ActiveSessions({
+  walletKit,
   isConnected,
   activeSessions,
+  accounts,
   chainId,
   disconnectSession,
+  onSessionsUpdated,
 }: ActiveSessionsProps) {
   return (
     <Box
@@ -86,14 +96,14 @@ export default function ActiveSessions({
                 Approved Chains:
               </Text>
               <HStack wrap="wrap" spacing={2}>
-                {session.namespaces.eip155?.accounts.map((account: string) => {
-                  const [namespace, chainIdStr] = account.split(":");
+                {getSessionChains(session).map((chain) => {
+                  const [namespace, chainIdStr] = chain.split(":");
                   const accountChainId = parseInt(chainIdStr);
                   const chainName =
                     chainIdToChain[accountChainId]?.name || chainIdStr;
                   return (
                     <Badge
-                      key={account}
+                      key={chain}
                       colorScheme={
                         accountChainId === chainId ? "green" : "gray"
                       }
@@ -103,6 +113,16 @@ export default function ActiveSessions({
                   );
                 })}
               </HStack>
+
+              <SessionAccounts
+                walletKit={walletKit}
+                session={session}
+                accounts={accounts}
+                chainId={chainId}
+                onUpdated={onSessionsUpdated}
+              />
+
+              <SessionAutoSignRules topic={session.topic} />
             </Box>
           ))}
         </VStack>
@@ -0,0 +1,82 @@
+import {
+  Badge,
+  Box,
+  Button,
+  Flex,
+  Heading,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from "@chakra-ui/react";
+import { AutoSignLogEntry } from "../auto-sign";
+
+interface AutoSignAuditLogProps {
+  log: AutoSignLogEntry[];
+  onClear: () => void;
+}
+
+export default function AutoSignAuditLog({
+  log,
+  onClear,
+}: AutoSignAuditLogProps) {
+  if (log.length === 0) return null;
+
+  return (
+    <Box mt={4} p={{ base: 4, md: 6 }} borderWidth={1} borderRadius="lg">
+      <Flex justifyContent="space-between" alignItems="center" mb={4}>
+        <Heading size={{ base: "sm", md: "md" }}>
+          Auto-approved Requests ({log.length})
+        </Heading>
+        <Button size="sm" onClick={onClear}>
+          Clear
+        </Button>
+      </Flex>
+      <Box overflowX="auto" maxH="20rem" overflowY="auto">
+        <Table size="sm">
+          <Thead>
+            <Tr>
+              <Th>Time</Th>
+              <Th>Dapp</Th>
+              <Th>Method</Th>
+              <Th>Request</Th>
+              <Th>Result</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {log.map((entry) => (
+              <Tr key={`${entry.timestamp}-${entry.topic}`}>
+                <Td whiteSpace="nowrap">
+                  {new Date(entry.timestamp).toLocaleString()}
+                </Td>
+                <Td>{entry.dapp}</Td>
+                <Td>
+                  {entry.method} <Badge>{entry.rule}</Badge>
+                </Td>
+                <Td>
+                  <Text fontSize="xs" wordBreak="break-all">
+                    {entry.summary}
+                  </Text>
+                </Td>
+                <Td>
+                  {entry.error ? (
+                    <Badge colorScheme="red" title={entry.error}>
+                      failed
+                    </Badge>
+                  ) : (
+                    <Text fontSize="xs" wordBreak="break-all">
+                      {entry.result}
+                    </Text>
+                  )}
+                </Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      </Box>
+    </Box>
+  );
+}
@@ -42,10 +42,6 @@ export default function ChainNotifier({
               },
               chainId: formattedChainId,
             });
-
-            console.log(
-              `Notified session ${session.topic} about chain change to ${chainId}`
-            );
           }
         }
       } catch (error) {
@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Accordion,
+  AccordionButton,
+  AccordionIcon,
+  AccordionItem,
+  AccordionPanel,
+  Badge,
+  Box,
+  Button,
+  Code,
+  Flex,
+  Heading,
+  HStack,
+  Input,
+  Select,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import { chainIdToChain } from "@/data/common";
+import {
+  RequestHistoryEntry,
+  RequestOutcome,
+  clearRequestHistory,
+  exportRequestHistory,
+  listRequestHistory,
+} from "../history";
+
+interface RequestHistoryProps {
+  /** Reloads the history when changed */
+  version: number;
+}
+
+const outcomeColors: Record<RequestOutcome, string> = {
+  approved: "green",
+  "auto-approved": "teal",
+  rejected: "gray",
+  failed: "red",
+};
+
+const toJson = (value: unknown) =>
+  JSON.stringify(
+    value,
+    (_, x) => (typeof x === "bigint" ? x.toString() : x),
+    2
+  );
+
+const JsonBlock = ({ label, value }: { label: string; value: unknown }) => (
+  <Box>
+    <Text fontWeight="bold" fontSize="xs">
+      {label}:
+    </Text>
+    <Code
+      p={2}
+      borderRadius="md"
+      fontSize="2xs"
+      width="100%"
+      whiteSpace="pre-wrap"
+      wordBreak="break-word"
+      maxH="15rem"
+      overflowY="auto"
+    >
+      {toJson(value)}
+    </Code>
+  </Box>
+);
+
+export default function RequestHistory({ version }: RequestHistoryProps) {
+  const [entries, setEntries] = useState<RequestHistoryEntry[]>([]);
+  const [search, setSearch] = useState<string>("");
+  const [method, setMethod] = useState<string>("");
+  const [outcome, setOutcome] = useState<string>("");
+
+  useEffect(() => {
+    listRequestHistory()
+      .then(setEntries)
+      .catch((error) => console.error("Error reading request history:", error));
+  }, [version]);
+
+  const methods = useMemo(
+    () => Array.from(new Set(entries.map((entry) => entry.method))).sort(),
+    [entries]
+  );
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries.filter(
+      (entry) =>
+        (!method || entry.method === method) &&
+        (!outcome || entry.outcome === outcome) &&
+        (!query ||
+          entry.dapp.name.toLowerCase().includes(query) ||
+          entry.dapp.url.toLowerCase().includes(query) ||
+          String(entry.result ?? "")
+            .toLowerCase()
+            .includes(query))
+    );
+  }, [entries, search, method, outcome]);
+
+  const handleClear = async () => {
+    await clearRequestHistory();
+    setEntries([]);
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <Box mt={4} p={{ base: 4, md: 6 }} borderWidth={1} borderRadius="lg">
+      <Flex justifyContent="space-between" alignItems="center" mb={4}>
+        <Heading size={{ base: "sm", md: "md" }}>
+          Request History ({filtered.length})
+        </Heading>
+        <HStack>
+          <Button size="sm" onClick={() => exportRequestHistory(filtered)}>
+            Export JSON
+          </Button>
+          <Button size="sm" onClick={handleClear}>
+            Clear
+          </Button>
+        </HStack>
+      </Flex>
+
+      <HStack spacing={2} mb={4} flexWrap="wrap">
+        <Input
+          size="sm"
+          flex={2}
+          minW="10rem"
+          placeholder="Search dapp or result"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <Select
+          size="sm"
+          flex={1}
+          minW="8rem"
+          value={method}
+          onChange={(e) => setMethod(e.target.value)}
+        >
+          <option value="">All methods</option>
+          {methods.map((x) => (
+            <option key={x} value={x}>
+              {x}
+            </option>
+          ))}
+        </Select>
+        <Select
+          size="sm"
+          flex={1}
+          minW="8rem"
+          value={outcome}
+          onChange={(e) => setOutcome(e.target.value)}
+        >
+          <option value="">All outcomes</option>
+          {Object.keys(outcomeColors).map((x) => (
+            <option key={x} value={x}>
+              {x}
+            </option>
+          ))}
+        </Select>
+      </HStack>
+
+      <Accordion allowToggle maxH="30rem" overflowY="auto">
+        {filtered.map((entry) => (
+          <AccordionItem key={entry.id}>
+            <AccordionButton px={2}>
+              <Flex flex={1} gap={2} alignItems="center" flexWrap="wrap">
+                <Text fontSize="xs" color="gray.500" whiteSpace="nowrap">
+                  {new Date(entry.resolvedAt).toLocaleString()}
+                </Text>
+                <Text fontSize="sm" fontWeight="semibold">
+                  {entry.dapp.name}
+                </Text>
+                <Code fontSize="xs">{entry.method}</Code>
+                <Badge>
+                  {chainIdToChain[entry.chainId]?.name ?? entry.chainId}
+                </Badge>
+                <Badge colorScheme={outcomeColors[entry.outcome]}>
+                  {entry.outcome}
+                </Badge>
+              </Flex>
+              <AccordionIcon />
+            </AccordionButton>
+            <AccordionPanel>
+              <VStack spacing={2} align="stretch">
+                <Text fontSize="xs" color="gray.500">
+                  {entry.dapp.url}
+                  {entry.receivedAt &&
+                    ` · received ${new Date(
+                      entry.receivedAt
+                    ).toLocaleTimeString()}`}
+                </Text>
+                {entry.result !== undefined && (
+                  <JsonBlock label="Result" value={entry.result} />
+                )}
+                {entry.error && (
+                  <Text fontSize="xs" color="red.400">
+                    {entry.error}
+                  </Text>
+                )}
+                {entry.decoded && (
+                  <JsonBlock label="Decoded" value={entry.decoded} />
+                )}
+                <JsonBlock label="Params" value={entry.params} />
+              </VStack>
+            </AccordionPanel>
+          </AccordionItem>
+        ))}
+      </Accordion>
+    </Box>
+  );
+}
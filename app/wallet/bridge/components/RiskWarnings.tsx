@@ -0,0 +1,145 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  AlertTitle,
+  Box,
+  Flex,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import { Address, createPublicClient, erc20Abi, formatUnits, http } from "viem";
+import { chainIdToChain } from "@/data/common";
+import { SessionRequest } from "../types";
+import { RiskWarning, getRiskWarnings } from "../risk";
+
+interface RiskWarningsProps {
+  request: SessionRequest;
+}
+
+type TokenMetadata = { symbol?: string; decimals?: number };
+
+const formatExpiry = (expiry: number) =>
+  expiry === 0 ? "Never" : new Date(expiry * 1000).toLocaleString();
+
+const formatAmount = (warning: RiskWarning, metadata?: TokenMetadata) => {
+  if (warning.unlimited) return "Unlimited";
+  if (warning.amount === undefined) return undefined;
+  return metadata?.decimals !== undefined && warning.tokenId === undefined
+    ? formatUnits(warning.amount, metadata.decimals)
+    : warning.amount.toString();
+};
+
+const Detail = ({ label, value }: { label: string; value?: string }) =>
+  value ? (
+    <Flex gap={2} flexDirection={{ base: "column", sm: "row" }}>
+      <Text fontWeight="bold" minW="4.5rem">
+        {label}:
+      </Text>
+      <Text wordBreak="break-all">{value}</Text>
+    </Flex>
+  ) : null;
+
+export default function RiskWarnings({ request }: RiskWarningsProps) {
+  const chainId = parseInt(request.params.chainId.split(":")[1]);
+  const warnings = useMemo(
+    () => getRiskWarnings(request.params.request),
+    [request]
+  );
+  const [tokens, setTokens] = useState<Record<string, TokenMetadata>>({});
+
+  // Token symbols and decimals for readable amounts, best effort
+  useEffect(() => {
+    setTokens({});
+    const addresses = Array.from(
+      new Set(
+        warnings
+          .map((warning) => warning.token)
+          .filter((token): token is Address => !!token)
+      )
+    );
+    if (!addresses.length || !chainIdToChain[chainId]) return;
+
+    const client = createPublicClient({
+      chain: chainIdToChain[chainId],
+      transport: http(),
+    });
+
+    let cancelled = false;
+    Promise.all(
+      addresses.map(async (address) => {
+        const [symbol, decimals] = await Promise.all([
+          client
+            .readContract({ address, abi: erc20Abi, functionName: "symbol" })
+            .catch(() => undefined),
+          client
+            .readContract({ address, abi: erc20Abi, functionName: "decimals" })
+            .catch(() => undefined),
+        ]);
+        return [address.toLowerCase(), { symbol, decimals }] as const;
+      })
+    ).then((entries) => {
+      if (!cancelled) setTokens(Object.fromEntries(entries));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [warnings, chainId]);
+
+  if (!warnings.length) return null;
+
+  return (
+    <VStack spacing={2} align="stretch">
+      {warnings.map((warning, i) => {
+        const metadata = warning.token
+          ? tokens[warning.token.toLowerCase()]
+          : undefined;
+
+        return (
+          <Alert
+            key={i}
+            status={warning.severity === "high" ? "error" : "warning"}
+            variant="left-accent"
+            borderRadius="md"
+            alignItems="flex-start"
+          >
+            <AlertIcon />
+            <Box flex={1} fontSize={{ base: "xs", md: "sm" }}>
+              <AlertTitle fontSize={{ base: "sm", md: "md" }}>
+                {warning.title}
+              </AlertTitle>
+              <AlertDescription>
+                {warning.details && <Text mb={1}>{warning.details}</Text>}
+                <Detail label="Spender" value={warning.spender} />
+                <Detail
+                  label="Token"
+                  value={
+                    warning.token &&
+                    (metadata?.symbol
+                      ? `${metadata.symbol} (${warning.token})`
+                      : warning.token)
+                  }
+                />
+                <Detail label="Token ID" value={warning.tokenId?.toString()} />
+                <Detail
+                  label="Amount"
+                  value={formatAmount(warning, metadata)}
+                />
+                <Detail
+                  label="Expires"
+                  value={
+                    warning.expiry !== undefined
+                      ? formatExpiry(warning.expiry)
+                      : undefined
+                  }
+                />
+              </AlertDescription>
+            </Box>
+          </Alert>
+        );
+      })}
+    </VStack>
+  );
+}
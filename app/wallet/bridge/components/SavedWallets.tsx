@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  Heading,
+  HStack,
+  IconButton,
+  Input,
+  Radio,
+  RadioGroup,
+  Text,
+  VStack,
+  useToast,
+} from "@chakra-ui/react";
+import { DeleteIcon } from "@chakra-ui/icons";
+import {
+  VaultSecret,
+  VaultWallet,
+  deleteVaultWallet,
+  listVaultWallets,
+  unlockVaultWallet,
+} from "../../vault";
+import { smartAccountImplementations } from "../../smart-accounts";
+
+interface SavedWalletsProps {
+  onUnlock: (wallet: VaultWallet, secret: VaultSecret) => void;
+}
+
+export default function SavedWallets({ onUnlock }: SavedWalletsProps) {
+  const toast = useToast();
+  const [wallets, setWallets] = useState<VaultWallet[]>([]);
+  const [selectedId, setSelectedId] = useState<string>("");
+  const [passphrase, setPassphrase] = useState<string>("");
+  const [isUnlocking, setIsUnlocking] = useState<boolean>(false);
+
+  useEffect(() => {
+    listVaultWallets()
+      .then((saved) => {
+        setWallets(saved);
+        setSelectedId(saved[0]?.id ?? "");
+      })
+      .catch((error) => console.error("Error reading the vault:", error));
+  }, []);
+
+  const handleUnlock = async () => {
+    const wallet = wallets.find((x) => x.id === selectedId);
+    if (!wallet) return;
+
+    try {
+      setIsUnlocking(true);
+      const secret = await unlockVaultWallet(wallet, passphrase);
+      setPassphrase("");
+      onUnlock(wallet, secret);
+    } catch (error) {
+      toast({
+        title: "Unlock Failed",
+        description: (error as Error).message,
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+        position: "bottom-right",
+      });
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteVaultWallet(id);
+    const remaining = wallets.filter((x) => x.id !== id);
+    setWallets(remaining);
+    if (selectedId === id) setSelectedId(remaining[0]?.id ?? "");
+  };
+
+  if (wallets.length === 0) return null;
+
+  return (
+    <Box p={4} mb={4} borderWidth={1} borderRadius="lg" textAlign="left">
+      <VStack spacing={3} align="stretch">
+        <Heading size="md">Saved Wallets</Heading>
+        <RadioGroup value={selectedId} onChange={setSelectedId}>
+          <VStack spacing={2} align="stretch">
+            {wallets.map((wallet) => (
+              <HStack key={wallet.id} justify="space-between">
+                <Radio value={wallet.id}>
+                  <Text as="span" fontWeight="semibold">
+                    {wallet.label}
+                  </Text>{" "}
+                  <Text as="span" fontSize="sm" color="gray.500">
+                    {wallet.settings.address.slice(0, 6)}...
+                    {wallet.settings.address.slice(-4)}
+                  </Text>
+                  <Badge ml={2} fontSize="xs">
+                    {
+                      smartAccountImplementations[
+                        wallet.settings.implementation
+                      ].name
+                    }
+                  </Badge>
+                </Radio>
+                <IconButton
+                  aria-label="Delete saved wallet"
+                  icon={<DeleteIcon />}
+                  size="xs"
+                  variant="ghost"
+                  colorScheme="red"
+                  onClick={() => handleDelete(wallet.id)}
+                />
+              </HStack>
+            ))}
+          </VStack>
+        </RadioGroup>
+        <HStack>
+          <Input
+            type="password"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleUnlock()}
+          />
+          <Button
+            colorScheme="blue"
+            onClick={handleUnlock}
+            isLoading={isUnlocking}
+            isDisabled={!selectedId || !passphrase}
+          >
+            Unlock
+          </Button>
+        </HStack>
+      </VStack>
+    </Box>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import {
+  Badge,
+  Box,
+  Checkbox,
+  HStack,
+  Radio,
+  RadioGroup,
+  Text,
+  VStack,
+  useToast,
+} from "@chakra-ui/react";
+import { Address, isAddressEqual } from "viem";
+import { WalletKitInstance } from "../types";
+import {
+  BridgeAccount,
+  getSessionAddresses,
+  updateSessionAddresses,
+} from "../accounts";
+
+interface SessionAccountsProps {
+  walletKit: WalletKitInstance | null;
+  session: any;
+  accounts: BridgeAccount[];
+  chainId: number;
+  onUpdated: () => void;
+}
+
+const kindColors: Record<BridgeAccount["kind"], string> = {
+  wallet: "blue",
+  "smart-wallet": "purple",
+  impersonated: "orange",
+};
+
+export default function SessionAccounts({
+  walletKit,
+  session,
+  accounts,
+  chainId,
+  onUpdated,
+}: SessionAccountsProps) {
+  const toast = useToast();
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const sessionAddresses = getSessionAddresses(session);
+  const selected = sessionAddresses[0];
+
+  // Attached accounts whose connection is gone are still listed
+  const listed = [
+    ...accounts.map((account) => account.address),
+    ...sessionAddresses.filter(
+      (address) =>
+        !accounts.some((account) => isAddressEqual(account.address, address))
+    ),
+  ];
+
+  const isAttached = (address: Address) =>
+    sessionAddresses.some((x) => isAddressEqual(x, address));
+
+  const update = async (addresses: Address[]) => {
+    if (!walletKit) return;
+
+    setIsUpdating(true);
+    try {
+      await updateSessionAddresses(walletKit, session, addresses, chainId);
+      onUpdated();
+    } catch (error) {
+      console.error("Failed to update session accounts:", error);
+      toast({
+        title: "Failed to update session accounts",
+        description: (error as Error).message,
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+        position: "bottom-right",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const toggleAccount = (address: Address) => {
+    if (isAttached(address)) {
+      update(sessionAddresses.filter((x) => !isAddressEqual(x, address)));
+    } else {
+      update([...sessionAddresses, address]);
+    }
+  };
+
+  const selectAccount = (address: Address) =>
+    update([
+      address,
+      ...sessionAddresses.filter((x) => !isAddressEqual(x, address)),
+    ]);
+
+  if (listed.length < 2) return null;
+
+  return (
+    <Box mt={3}>
+      <Text fontSize="sm" fontWeight="bold" mb={1}>
+        Accounts:
+      </Text>
+      <RadioGroup
+        value={selected}
+        onChange={(value) => selectAccount(value as Address)}
+        isDisabled={isUpdating}
+      >
+        <VStack spacing={1} align="stretch">
+          {listed.map((address) => {
+            const account = accounts.find((x) =>
+              isAddressEqual(x.address, address)
+            );
+            const attached = isAttached(address);
+
+            return (
+              <HStack key={address} spacing={2} flexWrap="wrap">
+                <Checkbox
+                  size="sm"
+                  isChecked={attached}
+                  // The dapp always needs one account
+                  isDisabled={
+                    isUpdating || (attached && sessionAddresses.length === 1)
+                  }
+                  onChange={() => toggleAccount(address)}
+                />
+                <Radio size="sm" value={address} isDisabled={!attached}>
+                  <Text fontSize="xs" fontFamily="mono" wordBreak="break-all">
+                    {address}
+                  </Text>
+                </Radio>
+                {account ? (
+                  <Badge colorScheme={kindColors[account.kind]} fontSize="2xs">
+                    {account.connectorName}
+                  </Badge>
+                ) : (
+                  <Badge colorScheme="gray" fontSize="2xs">
+                    not connected
+                  </Badge>
+                )}
+              </HStack>
+            );
+          })}
+        </VStack>
+      </RadioGroup>
+      <Text fontSize="xs" color="gray.500" mt={1}>
+        The selected account is the one the dapp sees, requests are signed by
+        the account they are sent from
+      </Text>
+    </Box>
+  );
+}
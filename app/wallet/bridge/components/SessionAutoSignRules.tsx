@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  HStack,
+  IconButton,
+  Input,
+  Text,
+  VStack,
+  useToast,
+} from "@chakra-ui/react";
+import { DeleteIcon } from "@chakra-ui/icons";
+import { Address, formatEther, isAddress, parseEther } from "viem";
+import {
+  AutoSignRule,
+  loadAutoSignRules,
+  saveAutoSignRules,
+} from "../auto-sign";
+
+interface SessionAutoSignRulesProps {
+  topic: string;
+}
+
+export default function SessionAutoSignRules({
+  topic,
+}: SessionAutoSignRulesProps) {
+  const toast = useToast();
+  const [rules, setRules] = useState<AutoSignRule[]>([]);
+  const [contracts, setContracts] = useState<string>("");
+  const [maxValue, setMaxValue] = useState<string>("0");
+
+  useEffect(() => {
+    setRules(loadAutoSignRules(topic));
+  }, [topic]);
+
+  const updateRules = (updated: AutoSignRule[]) => {
+    setRules(updated);
+    saveAutoSignRules(topic, updated);
+  };
+
+  const addSiweRule = () =>
+    updateRules([...rules, { id: crypto.randomUUID(), type: "siwe" }]);
+
+  const addTransactionRule = () => {
+    const addresses = contracts
+      .split(",")
+      .map((x) => x.trim())
+      .filter(Boolean);
+
+    let maxValueWei: bigint;
+    try {
+      maxValueWei = parseEther(maxValue || "0");
+    } catch {
+      maxValueWei = BigInt(-1);
+    }
+
+    if (
+      addresses.length === 0 ||
+      !addresses.every((x) => isAddress(x)) ||
+      maxValueWei < BigInt(0)
+    ) {
+      toast({
+        title: "Invalid rule",
+        description: "Provide contract addresses and a value cap in ETH",
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+        position: "bottom-right",
+      });
+      return;
+    }
+
+    updateRules([
+      ...rules,
+      {
+        id: crypto.randomUUID(),
+        type: "transaction",
+        contracts: addresses as Address[],
+        maxValue: maxValueWei.toString(),
+      },
+    ]);
+    setContracts("");
+    setMaxValue("0");
+  };
+
+  return (
+    <Box mt={3}>
+      <Text fontSize="sm" fontWeight="bold" mb={1}>
+        Auto-signing Rules:
+      </Text>
+      <VStack spacing={1} align="stretch">
+        {rules.length === 0 && (
+          <Text fontSize="sm" color="gray.500">
+            Every request asks for confirmation
+          </Text>
+        )}
+        {rules.map((rule) => (
+          <HStack key={rule.id} justify="space-between">
+            {rule.type === "siwe" ? (
+              <Text fontSize="sm">
+                <Badge mr={2}>SIWE</Badge>
+                Sign-In with Ethereum for this domain
+              </Text>
+            ) : (
+              <Text fontSize="sm" wordBreak="break-all">
+                <Badge mr={2}>Transactions</Badge>
+                up to {formatEther(BigInt(rule.maxValue))} ETH to{" "}
+                {rule.contracts.join(", ")}
+              </Text>
+            )}
+            <IconButton
+              aria-label="Remove rule"
+              icon={<DeleteIcon />}
+              size="xs"
+              variant="ghost"
+              colorScheme="red"
+              onClick={() => updateRules(rules.filter((x) => x.id !== rule.id))}
+            />
+          </HStack>
+        ))}
+        <HStack spacing={2} flexWrap="wrap">
+          {!rules.some((rule) => rule.type === "siwe") && (
+            <Button size="xs" onClick={addSiweRule}>
+              Auto-sign SIWE
+            </Button>
+          )}
+          <Input
+            size="xs"
+            flex={3}
+            minW="12rem"
+            placeholder="Contracts (0x..., 0x...)"
+            value={contracts}
+            onChange={(e) => setContracts(e.target.value)}
+          />
+          <Input
+            size="xs"
+            flex={1}
+            minW="5rem"
+            placeholder="Max ETH"
+            value={maxValue}
+            onChange={(e) => setMaxValue(e.target.value)}
+          />
+          <Button size="xs" onClick={addTransactionRule}>
+            Auto-send
+          </Button>
+        </HStack>
+      </VStack>
+    </Box>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState } from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Heading,
+  HStack,
+  IconButton,
+  Input,
+  Select,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  VStack,
+} from "@chakra-ui/react";
+import { DeleteIcon } from "@chakra-ui/icons";
+import { DappPolicy, SessionPolicy } from "../policy";
+
+interface SessionPolicySettingsProps {
+  policy: SessionPolicy;
+  onChange: (policy: SessionPolicy) => void;
+}
+
+// Comma separated list, empty entries dropped
+const parseList = (value: string) =>
+  value
+    .split(",")
+    .map((x) => x.trim())
+    .filter(Boolean);
+
+export default function SessionPolicySettings({
+  policy,
+  onChange,
+}: SessionPolicySettingsProps) {
+  const [origin, setOrigin] = useState<string>("");
+  const [access, setAccess] = useState<DappPolicy["access"]>("allow");
+  const [chainIds, setChainIds] = useState<string>("");
+  const [methods, setMethods] = useState<string>("");
+
+  const addRule = () => {
+    const rule: DappPolicy = {
+      origin: origin.trim().toLowerCase(),
+      access,
+      chainIds: parseList(chainIds).map(Number).filter(Number.isInteger),
+      methods: parseList(methods),
+    };
+
+    onChange({
+      ...policy,
+      dapps: policy.dapps
+        .filter((dapp) => dapp.origin !== rule.origin)
+        .concat(rule),
+    });
+    setOrigin("");
+    setChainIds("");
+    setMethods("");
+  };
+
+  const removeRule = (ruleOrigin: string) =>
+    onChange({
+      ...policy,
+      dapps: policy.dapps.filter((dapp) => dapp.origin !== ruleOrigin),
+    });
+
+  return (
+    <Box mt={4} p={{ base: 4, md: 6 }} borderWidth={1} borderRadius="lg">
+      <Heading size={{ base: "sm", md: "md" }} mb={{ base: 3, md: 4 }}>
+        Session Approval Policy
+      </Heading>
+      <VStack spacing={4} align="stretch">
+        <FormControl>
+          <FormLabel>Dapps without a rule</FormLabel>
+          <Select
+            value={policy.mode}
+            onChange={(e) =>
+              onChange({
+                ...policy,
+                mode: e.target.value as SessionPolicy["mode"],
+              })
+            }
+          >
+            <option value="auto">Auto-approve</option>
+            <option value="ask">Ask every time</option>
+          </Select>
+          <FormHelperText>
+            Unverified or flagged domains always ask, denied dapps are rejected
+          </FormHelperText>
+        </FormControl>
+
+        {policy.dapps.length > 0 && (
+          <Box overflowX="auto">
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>Origin</Th>
+                  <Th>Access</Th>
+                  <Th>Chains</Th>
+                  <Th>Methods</Th>
+                  <Th />
+                </Tr>
+              </Thead>
+              <Tbody>
+                {policy.dapps.map((dapp) => (
+                  <Tr key={dapp.origin}>
+                    <Td>{dapp.origin}</Td>
+                    <Td>
+                      <Badge
+                        colorScheme={dapp.access === "allow" ? "green" : "red"}
+                      >
+                        {dapp.access}
+                      </Badge>
+                    </Td>
+                    <Td>
+                      {dapp.chainIds.length ? dapp.chainIds.join(", ") : "all"}
+                    </Td>
+                    <Td>
+                      <Text fontSize="xs">
+                        {dapp.methods.length ? dapp.methods.join(", ") : "all"}
+                      </Text>
+                    </Td>
+                    <Td>
+                      <IconButton
+                        aria-label="Remove rule"
+                        icon={<DeleteIcon />}
+                        size="xs"
+                        variant="ghost"
+                        colorScheme="red"
+                        onClick={() => removeRule(dapp.origin)}
+                      />
+                    </Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          </Box>
+        )}
+
+        <HStack spacing={2} align="flex-end" flexWrap="wrap">
+          <FormControl flex={2} minW="10rem">
+            <FormLabel fontSize="sm">Origin</FormLabel>
+            <Input
+              size="sm"
+              placeholder="app.uniswap.org or *.example.com"
+              value={origin}
+              onChange={(e) => setOrigin(e.target.value)}
+            />
+          </FormControl>
+          <FormControl flex={1} minW="6rem">
+            <FormLabel fontSize="sm">Access</FormLabel>
+            <Select
+              size="sm"
+              value={access}
+              onChange={(e) =>
+                setAccess(e.target.value as DappPolicy["access"])
+              }
+            >
+              <option value="allow">Allow</option>
+              <option value="deny">Deny</option>
+            </Select>
+          </FormControl>
+          <FormControl flex={1} minW="6rem">
+            <FormLabel fontSize="sm">Chain IDs</FormLabel>
+            <Input
+              size="sm"
+              placeholder="1, 8453"
+              value={chainIds}
+              onChange={(e) => setChainIds(e.target.value)}
+              isDisabled={access === "deny"}
+            />
+          </FormControl>
+          <FormControl flex={2} minW="10rem">
+            <FormLabel fontSize="sm">Methods</FormLabel>
+            <Input
+              size="sm"
+              placeholder="personal_sign, eth_sendTransaction"
+              value={methods}
+              onChange={(e) => setMethods(e.target.value)}
+              isDisabled={access === "deny"}
+            />
+          </FormControl>
+          <Button size="sm" onClick={addRule} isDisabled={!origin.trim()}>
+            Add Rule
+          </Button>
+        </HStack>
+      </VStack>
+    </Box>
+  );
+}
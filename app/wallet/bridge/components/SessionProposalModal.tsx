@@ -1,4 +1,7 @@
 import {
+  Alert,
+  AlertIcon,
+  Badge,
   Box,
   Button,
   Divider,
@@ -15,22 +18,37 @@ import {
   VStack,
 } from "@chakra-ui/react";
 import { SessionProposal } from "../types";
+import { SessionPolicyDecision } from "../policy";
 
 interface SessionProposalModalProps {
   isOpen: boolean;
   onClose: () => void;
   currentSessionProposal: SessionProposal | null;
+  policyDecision: SessionPolicyDecision | null;
   onApprove: () => Promise<void>;
   onReject: () => Promise<void>;
 }
 
+const renderVerification = (proposal: SessionProposal) => {
+  const verified = proposal.verifyContext?.verified;
+  if (verified?.isScam) return <Badge colorScheme="red">flagged as scam</Badge>;
+  if (verified?.validation === "VALID")
+    return <Badge colorScheme="green">verified</Badge>;
+  if (verified?.validation === "INVALID")
+    return <Badge colorScheme="red">domain mismatch</Badge>;
+  return <Badge colorScheme="orange">unverified</Badge>;
+};
+
 export default function SessionProposalModal({
   isOpen,
   onClose,
   currentSessionProposal,
+  policyDecision,
   onApprove,
   onReject,
 }: SessionProposalModalProps) {
+  const dapp = policyDecision?.dapp;
+
   return (
     <Modal
       isOpen={isOpen}
@@ -80,11 +98,46 @@ export default function SessionProposalModal({
                     {currentSessionProposal.params.proposer.metadata.name}
                   </Heading>
                   <Text fontSize="sm" color="whiteAlpha.700">
-                    {currentSessionProposal.params.proposer.metadata.url}
+                    {currentSessionProposal.params.proposer.metadata.url}{" "}
+                    {renderVerification(currentSessionProposal)}
                   </Text>
+                  {currentSessionProposal.verifyContext?.verified.origin && (
+                    <Text fontSize="xs" color="whiteAlpha.600">
+                      Origin:{" "}
+                      {currentSessionProposal.verifyContext.verified.origin}
+                    </Text>
+                  )}
                 </Box>
               </Flex>
 
+              {policyDecision?.reason && (
+                <Alert
+                  status={
+                    currentSessionProposal.verifyContext?.verified.isScam
+                      ? "error"
+                      : "warning"
+                  }
+                  borderRadius="md"
+                  color="black"
+                >
+                  <AlertIcon />
+                  {policyDecision.reason}
+                </Alert>
+              )}
+
+              {dapp &&
+                (dapp.chainIds.length > 0 || dapp.methods.length > 0) && (
+                  <Box fontSize="sm">
+                    <Text fontWeight="bold">Limited by policy to:</Text>
+                    {dapp.chainIds.length > 0 && (
+                      <Text>Chains: {dapp.chainIds.join(", ")}</Text>
+                    )}
+                    {dapp.methods.length > 0 && (
+                      <Text>Methods: {dapp.methods.join(", ")}</Text>
+                    )}
+                  </Box>
+                )}
+
               <Divider />
 
               <Box>
@@ -43,12 +43,20 @@ import {
   zeroAddress,
 } from "viem";
 import { DecodedSignatureData, SessionRequest } from "../types";
+import { UserOperationGasEstimate } from "../../headless-csw-connector";
 import { renderParams } from "@/components/renderParams";
 import { chainIdToChain } from "@/data/common";
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import axios from "axios";
 import { fetchContractAbi, generateTenderlyUrl } from "@/utils";
 import { BsArrowsAngleExpand, BsArrowsAngleContract } from "react-icons/bs";
+import { ChevronLeftIcon, ChevronRightIcon } from "@chakra-ui/icons";
+import TransactionSimulation from "./TransactionSimulation";
+import { getSimulationCalls } from "../simulation";
+import RiskWarnings from "./RiskWarnings";
+
+// eth_signTransaction only returns the signed transaction, without sending it
+const transactionMethods = ["eth_sendTransaction", "eth_signTransaction"];
 
 interface SessionRequestModalProps {
   isOpen: boolean;
@@ -61,10 +69,18 @@ interface SessionRequestModalProps {
   isSwitchingChain: boolean;
   needsChainSwitch: boolean;
   targetChainId: number | null;
+  gasEstimate?: UserOperationGasEstimate | null;
+  isEstimatingGas?: boolean;
   approveText?: string | React.ReactNode;
   onApprove: () => void;
   onReject: () => void;
   onChainSwitch: () => void;
+  /** 1-based position of the shown request among the pending ones */
+  queuePosition?: number;
+  queueLength?: number;
+  onPrevious?: () => void;
+  onNext?: () => void;
+  onRejectAll?: () => void;
   portalId?: string;
 }
 
@@ -79,10 +95,17 @@ export default function SessionRequestModal({
   isSwitchingChain,
   needsChainSwitch,
   targetChainId,
+  gasEstimate,
+  isEstimatingGas,
   approveText,
   onApprove,
   onReject,
   onChainSwitch,
+  queuePosition = 0,
+  queueLength = 0,
+  onPrevious,
+  onNext,
+  onRejectAll,
   portalId,
 }: SessionRequestModalProps) {
   const { address: connectedAddress } = useAccount();
@@ -91,6 +114,15 @@ export default function SessionRequestModal({
   const [txDataTabIndex, setTxDataTabIndex] = useState(1); // Start with Raw tab (index 1)
   const [isExpanded, setIsExpanded] = useState(false);
 
+  // Memoized so the simulation only reruns for a new request
+  const simulationCalls = useMemo(
+    () =>
+      currentSessionRequest
+        ? getSimulationCalls(currentSessionRequest.params.request)
+        : [],
+    [currentSessionRequest]
+  );
+
   useEffect(() => {
     // Switch to Decoded tab when decodedTxData becomes available
     if (decodedTxData) {
@@ -151,8 +183,9 @@ export default function SessionRequestModal({
 
   useEffect(() => {
     if (
-      currentSessionRequest?.params?.request?.method ===
-        "eth_sendTransaction" &&
+      transactionMethods.includes(
+        currentSessionRequest?.params?.request?.method ?? ""
+      ) &&
       currentSessionRequest?.params?.request?.params?.[0]?.to
     ) {
       // Extract chainId from the request
@@ -175,7 +208,7 @@ export default function SessionRequestModal({
       isCentered
       size={{ base: "sm", md: "lg" }}
       closeOnOverlayClick={false}
-      closeOnEsc={true}
+      closeOnEsc={!pendingRequest}
       blockScrollOnMount={false}
       portalProps={{
         containerRef: portalId
@@ -217,7 +250,30 @@ export default function SessionRequestModal({
             display={isExpanded && txDataTabIndex === 0 ? "none" : "flex"}
           >
             Session Request
-            <ModalCloseButton onClick={onClose} />
+            {queueLength > 1 && (
+              <HStack ml={3} spacing={1}>
+                <IconButton
+                  aria-label="Previous request"
+                  icon={<ChevronLeftIcon />}
+                  size="xs"
+                  variant="ghost"
+                  onClick={onPrevious}
+                  isDisabled={queuePosition <= 1 || pendingRequest}
+                />
+                <Badge colorScheme="orange">
+                  {queuePosition} of {queueLength}
+                </Badge>
+                <IconButton
+                  aria-label="Next request"
+                  icon={<ChevronRightIcon />}
+                  size="xs"
+                  variant="ghost"
+                  onClick={onNext}
+                  isDisabled={queuePosition >= queueLength || pendingRequest}
+                />
+              </HStack>
+            )}
+            <ModalCloseButton onClick={onClose} isDisabled={pendingRequest} />
           </ModalHeader>
           <ModalBody>
             {currentSessionRequest && (
@@ -242,9 +298,12 @@ export default function SessionRequestModal({
                   </Code>
                 </Box>
 
+                <RiskWarnings request={currentSessionRequest} />
+
                 {/* Transaction Request */}
-                {currentSessionRequest.params.request.method ===
-                  "eth_sendTransaction" && (
+                {transactionMethods.includes(
+                  currentSessionRequest.params.request.method
+                ) && (
                   <Box
                     p={{ base: 2, md: 3 }}
                     borderWidth={1}
@@ -261,6 +320,12 @@ export default function SessionRequestModal({
                       }
                     >
                       Transaction Details
+                      {currentSessionRequest.params.request.method ===
+                        "eth_signTransaction" && (
+                        <Badge ml={2} colorScheme="purple" fontSize="xs">
+                          signed only, not sent
+                        </Badge>
+                      )}
                     </Heading>
                     <VStack spacing={1} align="stretch">
                       <Box
@@ -358,8 +423,90 @@ export default function SessionRequestModal({
                             </Text>
                           </Flex>
                         )}
+                        {(isEstimatingGas || gasEstimate) && (
+                          <Flex
+                            justifyContent="space-between"
+                            flexDirection={{ base: "column", sm: "row" }}
+                          >
+                            <Text
+                              fontWeight="bold"
+                              color="white"
+                              fontSize={{ base: "sm", md: "md" }}
+                            >
+                              Max Network Fee:
+                            </Text>
+                            {isEstimatingGas ? (
+                              <Skeleton height="20px" width="120px" />
+                            ) : (
+                              gasEstimate && (
+                                <Tooltip
+                                  label={`callGasLimit: ${gasEstimate.callGasLimit}, verificationGasLimit: ${gasEstimate.verificationGasLimit}, preVerificationGas: ${gasEstimate.preVerificationGas}`}
+                                >
+                                  <Text
+                                    color="white"
+                                    fontSize={{ base: "xs", md: "sm" }}
+                                  >
+                                    {formatEther(gasEstimate.maxCost)}{" "}
+                                    {chainIdToChain[
+                                      parseInt(
+                                        currentSessionRequest.params.chainId.split(
+                                          ":"
+                                        )[1]
+                                      )
+                                    ]?.nativeCurrency.symbol ?? "ETH"}{" "}
+                                    <Badge
+                                      ml={1}
+                                      colorScheme={
+                                        gasEstimate.payer === "owner"
+                                          ? "orange"
+                                          : gasEstimate.payer === "paymaster"
+                                          ? "green"
+                                          : "blue"
+                                      }
+                                      fontSize="xs"
+                                    >
+                                      {gasEstimate.payer === "owner"
+                                        ? "paid by owner"
+                                        : gasEstimate.payer === "paymaster"
+                                        ? "sponsored by paymaster"
+                                        : "paid by smart wallet"}
+                                    </Badge>
+                                    {gasEstimate.initCode !== "0x" && (
+                                      <Badge
+                                        ml={1}
+                                        colorScheme="purple"
+                                        fontSize="xs"
+                                      >
+                                        deploys wallet
+                                      </Badge>
+                                    )}
+                                  </Text>
+                                </Tooltip>
+                              )
+                            )}
+                          </Flex>
+                        )}
                       </Box>
 
+                      {connectedAddress && (
+                        <Box
+                          mt={2}
+                          display={
+                            isExpanded && txDataTabIndex === 0
+                              ? "none"
+                              : "block"
+                          }
+                        >
+                          <TransactionSimulation
+                            chainId={parseInt(
+                              currentSessionRequest.params.chainId.split(":")[1]
+                            )}
+                            account={connectedAddress}
+                            calls={simulationCalls}
+                          />
+                        </Box>
+                      )}
+
                       {currentSessionRequest.params.request.params[0].data && (
                         <Box
                           mt={isExpanded && txDataTabIndex === 0 ? 0 : 4}
@@ -912,9 +1059,22 @@ export default function SessionRequestModal({
                     </Box>
                   )}
 
+                {/* Batched calls are simulated in order */}
+                {currentSessionRequest.params.request.method ===
+                  "wallet_sendCalls" &&
+                  connectedAddress && (
+                    <TransactionSimulation
+                      chainId={parseInt(
+                        currentSessionRequest.params.chainId.split(":")[1]
+                      )}
+                      account={connectedAddress}
+                      calls={simulationCalls}
+                    />
+                  )}
+
                 {/* For other request types, show raw params */}
                 {![
-                  "eth_sendTransaction",
+                  ...transactionMethods,
                   "personal_sign",
                   "eth_sign",
                   "eth_signTypedData",
@@ -949,42 +1109,55 @@ export default function SessionRequestModal({
           </ModalBody>
           <ModalFooter borderTopWidth="1px" borderColor="whiteAlpha.200">
             <Flex w="100%" justifyContent="space-between" alignItems="center">
-              {currentSessionRequest?.params?.request?.method ===
-                "eth_sendTransaction" && (
-                <Button
-                  colorScheme="whiteAlpha"
-                  size={{ base: "sm", md: "md" }}
-                  onClick={() => {
-                    const txData =
-                      currentSessionRequest.params.request.params[0];
-                    const chainIdStr =
-                      currentSessionRequest.params.chainId.split(":")[1];
-                    const chainId = parseInt(chainIdStr);
+              {currentSessionRequest &&
+                transactionMethods.includes(
+                  currentSessionRequest.params.request.method
+                ) && (
+                  <Button
+                    colorScheme="whiteAlpha"
+                    size={{ base: "sm", md: "md" }}
+                    onClick={() => {
+                      const txData =
+                        currentSessionRequest.params.request.params[0];
+                      const chainIdStr =
+                        currentSessionRequest.params.chainId.split(":")[1];
+                      const chainId = parseInt(chainIdStr);
 
-                    const url = generateTenderlyUrl(
-                      {
-                        from: connectedAddress || zeroAddress,
-                        to: txData.to,
-                        value: txData.value || "0",
-                        data: txData.data || "0x",
-                      },
-                      chainId
-                    );
-                    window.open(url, "_blank");
-                  }}
-                >
-                  <HStack>
-                    <Image
-                      src="/external/tenderly-favicon.ico"
-                      alt="Tenderly"
-                      width={5}
-                      height={5}
-                    />
-                    <Text color="white">Simulate</Text>
-                  </HStack>
-                </Button>
-              )}
+                      const url = generateTenderlyUrl(
+                        {
+                          from: connectedAddress || zeroAddress,
+                          to: txData.to,
+                          value: txData.value || "0",
+                          data: txData.data || "0x",
+                        },
+                        chainId
+                      );
+                      window.open(url, "_blank");
+                    }}
+                  >
+                    <HStack>
+                      <Image
+                        src="/external/tenderly-favicon.ico"
+                        alt="Tenderly"
+                        width={5}
+                        height={5}
+                      />
+                      <Text color="white">Simulate</Text>
+                    </HStack>
+                  </Button>
+                )}
               <HStack spacing={3}>
+                {queueLength > 1 && onRejectAll && (
+                  <Button
+                    variant="outline"
+                    colorScheme="red"
+                    onClick={onRejectAll}
+                    isDisabled={pendingRequest || isSwitchingChain}
+                    size={{ base: "sm", md: "md" }}
+                  >
+                    Reject All ({queueLength})
+                  </Button>
+                )}
                 <Button
                   colorScheme="red"
                   onClick={onReject}
@@ -0,0 +1,230 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  Flex,
+  Heading,
+  HStack,
+  Input,
+  SkeletonText,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import { Address, formatUnits, maxUint256 } from "viem";
+import { chainIdToChain } from "@/data/common";
+import {
+  AssetChange,
+  ApprovalChange,
+  SimulationCall,
+  SimulationResult,
+  simulateAssetChanges,
+} from "../simulation";
+
+interface TransactionSimulationProps {
+  chainId: number;
+  account: Address;
+  /** Memoize, a new array reruns the simulation */
+  calls: SimulationCall[];
+}
+
+const FORK_URL_STORAGE_KEY = "simulationForkUrl";
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatAssetChange = (change: AssetChange, chainId: number) => {
+  const sign = change.amount > BigInt(0) ? "+" : "-";
+  const amount = change.amount > BigInt(0) ? change.amount : -change.amount;
+
+  switch (change.standard) {
+    case "native":
+      return `${sign}${formatUnits(amount, 18)} ${
+        chainIdToChain[chainId]?.nativeCurrency.symbol ?? "ETH"
+      }`;
+    case "erc20":
+      return `${sign}${
+        change.decimals !== undefined
+          ? formatUnits(amount, change.decimals)
+          : amount.toString()
+      } ${change.symbol ?? shortAddress(change.token!)}`;
+    default:
+      return `${sign}${amount.toString()} ${
+        change.symbol ?? shortAddress(change.token!)
+      } #${change.tokenId?.toString()}`;
+  }
+};
+
+const formatApproval = (approval: ApprovalChange) => {
+  const token = approval.symbol ?? shortAddress(approval.token);
+
+  if (approval.approvedForAll !== undefined) {
+    return `${approval.approvedForAll ? "All" : "Revoked all"} ${token} to ${
+      approval.spender
+    }`;
+  }
+  if (approval.tokenId !== undefined) {
+    return `${token} #${approval.tokenId.toString()} to ${approval.spender}`;
+  }
+  return `${
+    approval.amount === maxUint256
+      ? "Unlimited"
+      : approval.decimals !== undefined
+      ? formatUnits(approval.amount ?? BigInt(0), approval.decimals)
+      : approval.amount?.toString()
+  } ${token} to ${approval.spender}`;
+};
+
+export default function TransactionSimulation({
+  chainId,
+  account,
+  calls,
+}: TransactionSimulationProps) {
+  const [forkUrl, setForkUrl] = useState<string>("");
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  // Ignores results of simulations that were superseded
+  const runIdRef = useRef(0);
+
+  const simulate = useCallback(
+    async (rpcUrl?: string) => {
+      const runId = ++runIdRef.current;
+      setIsSimulating(true);
+      setResult(null);
+      setError(null);
+
+      try {
+        const res = await simulateAssetChanges({
+          chainId,
+          account,
+          calls,
+          rpcUrl,
+        });
+        if (runId === runIdRef.current) setResult(res);
+      } catch (e: any) {
+        console.error("Error simulating transaction:", e);
+        if (runId === runIdRef.current) setError(e.message);
+      } finally {
+        if (runId === runIdRef.current) setIsSimulating(false);
+      }
+    },
+    [chainId, account, calls]
+  );
+
+  useEffect(() => {
+    const storedForkUrl = localStorage.getItem(FORK_URL_STORAGE_KEY) ?? "";
+    setForkUrl(storedForkUrl);
+    simulate(storedForkUrl);
+  }, [simulate]);
+
+  const handleRerun = () => {
+    if (forkUrl) localStorage.setItem(FORK_URL_STORAGE_KEY, forkUrl);
+    else localStorage.removeItem(FORK_URL_STORAGE_KEY);
+    simulate(forkUrl);
+  };
+
+  return (
+    <Box
+      p={{ base: 2, md: 3 }}
+      borderWidth={1}
+      borderRadius="md"
+      bg="whiteAlpha.100"
+      borderColor="whiteAlpha.300"
+    >
+      <Flex justifyContent="space-between" alignItems="center" mb={2}>
+        <Heading size={{ base: "xs", md: "sm" }} color="white">
+          Simulated Changes
+        </Heading>
+        {result && (
+          <HStack spacing={1}>
+            <Badge fontSize="xs">{result.method}</Badge>
+            <Badge colorScheme={result.success ? "green" : "red"}>
+              {result.success ? "succeeds" : "reverts"}
+            </Badge>
+          </HStack>
+        )}
+      </Flex>
+
+      {isSimulating ? (
+        <SkeletonText noOfLines={2} spacing={2} />
+      ) : error ? (
+        <Text fontSize="sm" color="red.300">
+          {error}
+        </Text>
+      ) : (
+        result && (
+          <VStack spacing={1} align="stretch">
+            {result.error && (
+              <Text fontSize="sm" color="red.300" wordBreak="break-word">
+                {result.error}
+              </Text>
+            )}
+            {result.assetChanges.length === 0 &&
+              result.approvals.length === 0 && (
+                <Text fontSize="sm" color="whiteAlpha.700">
+                  No balance changes or approvals for {shortAddress(account)}
+                </Text>
+              )}
+            {result.assetChanges.map((change, i) => (
+              <Flex key={i} justifyContent="space-between" gap={2}>
+                <Badge fontSize="xs">{change.standard}</Badge>
+                <Text
+                  fontSize="sm"
+                  fontWeight="semibold"
+                  color={change.amount > BigInt(0) ? "green.300" : "red.300"}
+                  wordBreak="break-all"
+                >
+                  {formatAssetChange(change, chainId)}
+                </Text>
+              </Flex>
+            ))}
+            {result.approvals.map((approval, i) => (
+              <Flex key={i} justifyContent="space-between" gap={2}>
+                <Badge
+                  fontSize="xs"
+                  colorScheme={approval.approvedForAll ? "red" : "orange"}
+                >
+                  {approval.approvedForAll !== undefined
+                    ? "approval for all"
+                    : "approval"}
+                </Badge>
+                <Text
+                  fontSize="sm"
+                  color={approval.approvedForAll ? "red.300" : "orange.300"}
+                  wordBreak="break-all"
+                  textAlign="right"
+                >
+                  {formatApproval(approval)}
+                </Text>
+              </Flex>
+            ))}
+            {result.gasUsed !== undefined && (
+              <Text fontSize="xs" color="whiteAlpha.600">
+                Gas used: {result.gasUsed.toString()}
+              </Text>
+            )}
+          </VStack>
+        )
+      )}
+
+      <HStack mt={3} spacing={2}>
+        <Input
+          size="xs"
+          color="white"
+          placeholder="Anvil fork URL (optional), e.g. http://127.0.0.1:8545"
+          value={forkUrl}
+          onChange={(e) => setForkUrl(e.target.value)}
+        />
+        <Button
+          size="xs"
+          colorScheme="whiteAlpha"
+          onClick={handleRerun}
+          isLoading={isSimulating}
+        >
+          Re-run
+        </Button>
+      </HStack>
+    </Box>
+  );
+}
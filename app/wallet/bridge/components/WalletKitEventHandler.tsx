@@ -1,39 +1,67 @@
 import { useEffect } from "react";
 import { useToast } from "@chakra-ui/react";
-import { decodeRecursive } from "@/lib/decoder";
 import { SessionProposal, SessionRequest, WalletKitInstance } from "../types";
+import { filterActiveSessions } from "../utils";
 import {
-  decodeSignMessage,
-  filterActiveSessions,
-  formatTypedData,
-} from "../utils";
-import { buildApprovedNamespaces } from "@walletconnect/utils";
+  SessionPolicy,
+  buildSessionNamespaces,
+  evaluateSessionProposal,
+  isSessionChainAllowed,
+} from "../policy";
+import {
+  AutoSignLogEntry,
+  describeAutoSignRequest,
+  executeAutoSignRequest,
+  loadAutoSignRules,
+  matchAutoSignRule,
+  saveAutoSignRules,
+} from "../auto-sign";
+import { addRequestHistory } from "../history";
+import { getRequestAddress } from "../accounts";
+import {
+  Address,
+  WalletClient,
+  hexToNumber,
+  isAddressEqual,
+  isHex,
+} from "viem";
 import { walletChains } from "@/app/providers";
 
+// EIP-5792 methods that only read state and are answered without approval
+const readOnlyCallsMethods = [
+  "wallet_getCallsStatus",
+  "wallet_showCallsStatus",
+  "wallet_getCapabilities",
+];
+
+// Chain changes requested by dapps, answered after switching the connector.
+// The chainChanged events are emitted by ChainNotifier once wagmi switched.
+const chainMethods = ["wallet_switchEthereumChain", "wallet_addEthereumChain"];
+
 interface WalletKitEventHandlerProps {
   walletKit: WalletKitInstance | null;
   address: string | undefined;
+  walletClient: WalletClient | undefined;
+  sessionPolicy: SessionPolicy;
   setCurrentSessionProposal: (proposal: SessionProposal | null) => void;
-  setCurrentSessionRequest: (request: SessionRequest | null) => void;
-  setDecodedTxData: (data: any) => void;
-  setIsDecodingTx: (isDecoding: boolean) => void;
-  setDecodedSignatureData: (data: any) => void;
   setActiveSessions: (sessions: any[]) => void;
   onSessionProposalOpen: () => void;
-  onSessionRequestOpen: () => void;
+  enqueueSessionRequest: (request: SessionRequest) => void;
+  onAutoSigned: (entry: AutoSignLogEntry) => void;
+  switchChain: (chainId: number) => Promise<unknown>;
 }
 
 export default function WalletKitEventHandler({
   walletKit,
   address,
+  walletClient,
+  sessionPolicy,
   setCurrentSessionProposal,
-  setCurrentSessionRequest,
-  setDecodedTxData,
-  setIsDecodingTx,
-  setDecodedSignatureData,
   setActiveSessions,
   onSessionProposalOpen,
-  onSessionRequestOpen,
+  enqueueSessionRequest,
+  onAutoSigned,
+  switchChain,
 }: WalletKitEventHandlerProps) {
   const toast = useToast();
 
@@ -50,36 +78,44 @@ export default function WalletKitEventHandler({
       console.log("Session proposal received:", proposal);
       console.log("Required namespaces:", proposal.params.requiredNamespaces);
       console.log("Optional namespaces:", proposal.params.optionalNamespaces);
+      console.log("Verify context:", proposal.verifyContext);
+
+      const decision = evaluateSessionProposal(sessionPolicy, proposal);
+      console.log("Session policy decision:", decision);
+
+      if (decision.action === "reject") {
+        walletKit
+          .rejectSession({
+            id: proposal.id,
+            reason: { code: 5000, message: decision.reason! },
+          })
+          .catch((error) =>
+            console.error("Failed to reject session by policy:", error)
+          );
+
+        toast({
+          title: "Dapp blocked",
+          description: `${proposal.params.proposer.metadata.name}: ${decision.reason}`,
+          status: "warning",
+          duration: 5000,
+          isClosable: true,
+          position: "bottom-right",
+        });
+        return;
+      }
+
       setCurrentSessionProposal(proposal);
 
       // Auto-approve the session proposal instead of opening the modal
-      if (walletKit && address) {
+      if (walletKit && address && decision.action === "approve") {
         // We'll call this in a setTimeout to ensure the state is updated
         setTimeout(async () => {
           try {
-            // Get the supported chains from walletChains
-            const chains = walletChains.map((chain) => `eip155:${chain.id}`);
-            const accounts = chains.map((chain) => `${chain}:${address}`);
-
-            const namespaces = buildApprovedNamespaces({
-              proposal: proposal.params,
-              supportedNamespaces: {
-                eip155: {
-                  chains,
-                  accounts,
-                  methods: [
-                    "eth_sendTransaction",
-                    "eth_sign",
-                    "personal_sign",
-                    "eth_signTransaction",
-                    "eth_signTypedData",
-                    "eth_signTypedData_v3",
-                    "eth_signTypedData_v4",
-                  ],
-                  events: ["chainChanged", "accountsChanged"],
-                },
-              },
-            });
+            const namespaces = buildSessionNamespaces(
+              proposal,
+              address,
+              decision.dapp
+            );
 
             console.log("Auto-approving session with namespaces:", namespaces);
 
@@ -116,7 +152,7 @@ export default function WalletKitEventHandler({
           }
         }, 100);
       } else {
-        // If wallet is not connected or address is not available, open the modal for manual approval
+        // Ask policy, unverified domain, or no wallet connected yet
         onSessionProposalOpen();
       }
     };
@@ -126,86 +162,221 @@ export default function WalletKitEventHandler({
       args: { verifyContext: any } & Omit<any, "topic">
     ) => {
       // Convert the args to our SessionRequest type
-      const request = args as unknown as SessionRequest;
+      const request: SessionRequest = {
+        ...(args as unknown as SessionRequest),
+        receivedAt: Date.now(),
+      };
       console.log("Session request received:", request);
-      setCurrentSessionRequest(request);
 
-      // Reset decoded data
-      setDecodedTxData(null);
-      setDecodedSignatureData(null);
+      // Respond to call bundle status and capability queries directly
+      if (readOnlyCallsMethods.includes(request.params.request.method)) {
+        try {
+          if (!walletClient) throw new Error("Wallet not connected");
 
-      // Start title notification
-      startTitleNotification();
+          const result = await walletClient.request({
+            method: request.params.request.method,
+            params: request.params.request.params,
+          } as any);
 
-      // Open the modal immediately
-      onSessionRequestOpen();
+          await walletKit.respondSessionRequest({
+            topic: request.topic,
+            response: { id: request.id, jsonrpc: "2.0", result },
+          });
+        } catch (error) {
+          console.error("Error handling read-only request:", error);
+          await walletKit.respondSessionRequest({
+            topic: request.topic,
+            response: {
+              id: request.id,
+              jsonrpc: "2.0",
+              error: { code: 5000, message: (error as Error).message },
+            },
+          });
+        }
+        return;
+      }
+
+      if (chainMethods.includes(request.params.request.method)) {
+        const { chainId: hexChainId, chainName } =
+          request.params.request.params?.[0] ?? {};
+        const session = walletKit.getActiveSessions()[request.topic];
+        const dappName = session?.peer.metadata.name ?? "Dapp";
 
-      // Decode transaction data if it's a sendTransaction request
-      if (request.params.request.method === "eth_sendTransaction") {
         try {
-          setIsDecodingTx(true);
-          const txData = request.params.request.params[0];
+          if (typeof hexChainId !== "string" || !isHex(hexChainId)) {
+            await walletKit.respondSessionRequest({
+              topic: request.topic,
+              response: {
+                id: request.id,
+                jsonrpc: "2.0",
+                error: {
+                  code: -32602,
+                  message: `Invalid chainId ${hexChainId}, expected a hex string`,
+                },
+              },
+            });
+            return;
+          }
+          const requestedChainId = hexToNumber(hexChainId);
+
+          // Chains can't be added to the wagmi config at runtime, so
+          // wallet_addEthereumChain only succeeds for chains we already have
+          if (!walletChains.some((chain) => chain.id === requestedChainId)) {
+            await walletKit.respondSessionRequest({
+              topic: request.topic,
+              response: {
+                id: request.id,
+                jsonrpc: "2.0",
+                error: {
+                  code: 4902,
+                  message: `Unrecognized chain ID ${requestedChainId}`,
+                },
+              },
+            });
 
-          if (txData.data) {
-            const chainIdStr = request.params.chainId.split(":")[1];
-            const chainIdNum = parseInt(chainIdStr);
+            toast({
+              title: "Unsupported chain",
+              description: `${dappName} requested ${
+                chainName ?? "chain"
+              } (${requestedChainId})`,
+              status: "warning",
+              duration: 5000,
+              isClosable: true,
+              position: "bottom-right",
+            });
+            return;
+          }
 
-            const decodedData = await decodeRecursive({
-              calldata: txData.data,
-              address: txData.to,
-              chainId: chainIdNum,
+          // Switching affects every session, only chains the dapp was
+          // approved for are allowed
+          if (
+            !isSessionChainAllowed(sessionPolicy, session, requestedChainId)
+          ) {
+            await walletKit.respondSessionRequest({
+              topic: request.topic,
+              response: {
+                id: request.id,
+                jsonrpc: "2.0",
+                error: {
+                  code: 4100,
+                  message: `Chain ID ${requestedChainId} is not approved for this session`,
+                },
+              },
             });
 
-            console.log("Decoded transaction data:", decodedData);
-            setDecodedTxData(decodedData);
+            toast({
+              title: "Chain switch rejected",
+              description: `${dappName} requested ${
+                chainName ?? "chain"
+              } (${requestedChainId}), which is not approved for its session`,
+              status: "warning",
+              duration: 5000,
+              isClosable: true,
+              position: "bottom-right",
+            });
+            return;
           }
-        } catch (error) {
-          console.error("Error decoding transaction data:", error);
-        } finally {
-          setIsDecodingTx(false);
-        }
-      }
-      // Decode signature requests
-      else if (
-        request.params.request.method === "personal_sign" ||
-        request.params.request.method === "eth_sign"
-      ) {
-        try {
-          // For personal_sign, the message is the first parameter
-          // For eth_sign, the message is the second parameter (first is address)
-          const messageParam =
-            request.params.request.method === "personal_sign"
-              ? request.params.request.params[0]
-              : request.params.request.params[1];
-
-          const decodedMessage = decodeSignMessage(messageParam);
-          setDecodedSignatureData({
-            type: "message",
-            decoded: decodedMessage,
+
+          if (walletClient?.chain?.id !== requestedChainId) {
+            await switchChain(requestedChainId);
+          }
+
+          await walletKit.respondSessionRequest({
+            topic: request.topic,
+            response: { id: request.id, jsonrpc: "2.0", result: null },
+          });
+
+          toast({
+            title: "Chain switched",
+            description: `${dappName} switched to ${
+              walletChains.find((chain) => chain.id === requestedChainId)?.name
+            }`,
+            status: "success",
+            duration: 3000,
+            isClosable: true,
+            position: "bottom-right",
           });
         } catch (error) {
-          console.error("Error decoding signature message:", error);
+          console.error("Error switching chain:", error);
+          await walletKit.respondSessionRequest({
+            topic: request.topic,
+            response: {
+              id: request.id,
+              jsonrpc: "2.0",
+              error: { code: 5000, message: (error as Error).message },
+            },
+          });
         }
+        return;
       }
-      // Decode typed data signing requests
-      else if (
-        request.params.request.method === "eth_signTypedData" ||
-        request.params.request.method === "eth_signTypedData_v3" ||
-        request.params.request.method === "eth_signTypedData_v4"
-      ) {
-        try {
-          // The typed data is usually the second parameter
-          const typedData = request.params.request.params[1];
-          const formattedTypedData = formatTypedData(typedData);
 
-          setDecodedSignatureData({
-            type: "typedData",
-            decoded: formattedTypedData,
+      // Requests matching one of the session's auto-signing rules skip the
+      // modal, failures fall back to manual confirmation
+      const session = walletKit.getActiveSessions()[request.topic];
+      const requestAddress = getRequestAddress(request, session);
+      const rule =
+        session &&
+        address &&
+        walletClient &&
+        (!requestAddress || isAddressEqual(requestAddress, address as Address))
+          ? matchAutoSignRule({
+              rules: loadAutoSignRules(request.topic),
+              request,
+              dappUrl: session.peer.metadata.url,
+              address: address as Address,
+              chainId: walletClient.chain?.id,
+            })
+          : undefined;
+
+      if (rule && walletClient) {
+        const entry: AutoSignLogEntry = {
+          timestamp: Date.now(),
+          topic: request.topic,
+          dapp: session.peer.metadata.name,
+          method: request.params.request.method,
+          rule: rule.type,
+          summary: describeAutoSignRequest(request),
+        };
+
+        try {
+          const result = await executeAutoSignRequest(
+            walletClient,
+            request,
+            address as Address
+          );
+
+          await walletKit.respondSessionRequest({
+            topic: request.topic,
+            response: { id: request.id, jsonrpc: "2.0", result },
           });
+          await addRequestHistory({
+            request,
+            metadata: session.peer.metadata,
+            outcome: "auto-approved",
+            result,
+          }).catch((error) => console.error("Error saving history:", error));
+          onAutoSigned({ ...entry, result });
+
+          toast({
+            title: "Request auto-approved",
+            description: `${entry.dapp}: ${entry.summary}`,
+            status: "success",
+            duration: 3000,
+            isClosable: true,
+            position: "bottom-right",
+          });
+          return;
         } catch (error) {
-          console.error("Error decoding typed data:", error);
+          console.error("Auto-signing failed:", error);
+          onAutoSigned({ ...entry, error: (error as Error).message });
         }
       }
+
+      // Start title notification
+      startTitleNotification();
+
+      // Queued behind requests that are still waiting for confirmation
+      enqueueSessionRequest(request);
     };
 
     // Handle session ping
@@ -216,6 +387,7 @@ export default function WalletKitEventHandler({
     // Handle session delete
     const onSessionDelete = (data: any) => {
       console.log("session_delete event received", data);
+      saveAutoSignRules(data.topic, []);
       // Update active sessions
       const sessions = walletKit.getActiveSessions();
       setActiveSessions(filterActiveSessions(Object.values(sessions)));
@@ -262,14 +434,14 @@ export default function WalletKitEventHandler({
   }, [
     walletKit,
     address,
+    walletClient,
+    sessionPolicy,
     setCurrentSessionProposal,
-    setCurrentSessionRequest,
-    setDecodedTxData,
-    setIsDecodingTx,
-    setDecodedSignatureData,
     setActiveSessions,
     onSessionProposalOpen,
-    onSessionRequestOpen,
+    enqueueSessionRequest,
+    onAutoSigned,
+    switchChain,
     toast,
   ]);
 
@@ -0,0 +1,110 @@
+import { Result } from "ethers";
+import { createObjectStore } from "../indexed-db";
+import { SessionRequest } from "./types";
+
+export type RequestOutcome =
+  | "approved"
+  | "auto-approved"
+  | "rejected"
+  | "failed";
+
+export type RequestHistoryEntry = {
+  /** Session topic and request id */
+  id: string;
+  topic: string;
+  requestId: number;
+  dapp: { name: string; url: string; icon?: string };
+  chainId: number;
+  method: string;
+  params: any;
+  /** Decoded calldata or signature payload shown when confirming */
+  decoded?: any;
+  outcome: RequestOutcome;
+  /** Transaction hash, signature or call bundle id */
+  result?: unknown;
+  error?: string;
+  receivedAt?: number;
+  resolvedAt: number;
+};
+
+const historyStore = createObjectStore<RequestHistoryEntry>(
+  "walletBridgeHistory",
+  "requests",
+  "id"
+);
+
+// IndexedDB can't clone ethers' Result proxies in decoded calldata, nor is
+// bigint JSON friendly for exports, so entries are stored as plain data
+const toPlainData = (value: unknown) =>
+  value === undefined
+    ? undefined
+    : JSON.parse(
+        JSON.stringify(value, (_, x) =>
+          x instanceof Result
+            ? x.toArray(true)
+            : typeof x === "bigint"
+            ? x.toString()
+            : x
+        )
+      );
+
+export const addRequestHistory = ({
+  request,
+  metadata,
+  outcome,
+  decoded,
+  result,
+  error,
+}: {
+  request: SessionRequest;
+  metadata?: { name: string; url: string; icons?: string[] };
+  outcome: RequestOutcome;
+  decoded?: any;
+  result?: unknown;
+  error?: string;
+}) =>
+  historyStore.put({
+    id: `${request.topic}:${request.id}`,
+    topic: request.topic,
+    requestId: request.id,
+    dapp: {
+      name: metadata?.name ?? "Unknown dapp",
+      url: metadata?.url ?? "",
+      icon: metadata?.icons?.[0],
+    },
+    chainId: parseInt(request.params.chainId.split(":")[1]),
+    method: request.params.request.method,
+    params: request.params.request.params,
+    decoded: toPlainData(decoded),
+    outcome,
+    result: toPlainData(result),
+    error,
+    receivedAt: request.receivedAt,
+    resolvedAt: Date.now(),
+  });
+
+// Newest first
+export const listRequestHistory = async () => {
+  const entries = await historyStore.getAll();
+  return entries.sort((a, b) => b.resolvedAt - a.resolvedAt);
+};
+
+export const clearRequestHistory = () => historyStore.clear();
+
+export const exportRequestHistory = (entries: RequestHistoryEntry[]) => {
+  // Decoded calldata holds bigints
+  const json = JSON.stringify(
+    entries,
+    (_, value) => (typeof value === "bigint" ? value.toString() : value),
+    2
+  );
+
+  const url = URL.createObjectURL(
+    new Blob([json], { type: "application/json" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `wallet-bridge-history-${Date.now()}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
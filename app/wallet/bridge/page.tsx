@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import {
   Box,
   Container,
@@ -26,26 +26,76 @@ import {
   FormHelperText,
   useColorModeValue,
   Textarea,
+  Select,
+  HStack,
+  Switch,
+  Badge,
 } from "@chakra-ui/react";
 import { Global } from "@emotion/react";
 import frameSdk, { Context } from "@farcaster/frame-sdk";
 import {
+  Connector,
+  CreateConnectorFn,
   useAccount,
+  useConfig,
   useWalletClient,
   useChainId,
   useSwitchChain,
   useConnect,
+  useConnections,
+  useDisconnect,
+  useSwitchAccount,
 } from "wagmi";
+import { getAccount } from "wagmi/actions";
 import { base } from "viem/chains";
 import { mnemonicToAccount } from "viem/accounts";
-import { bytesToHex } from "viem";
-import { buildApprovedNamespaces } from "@walletconnect/utils";
+import {
+  Address,
+  UnauthorizedProviderError,
+  UnsupportedProviderMethodError,
+  bytesToHex,
+  isAddressEqual,
+} from "viem";
 import { walletChains } from "@/app/providers";
 import { chainIdToChain } from "@/data/common";
-import { headlessCSWConnector } from "../headless-csw-connector";
+import {
+  headlessCSWConnector,
+  isHeadlessCSWConnector,
+  UserOperationGasEstimate,
+} from "../headless-csw-connector";
+import { PasskeyCredential, selectPasskey } from "../passkey";
+import {
+  EntryPointVersion,
+  SmartAccountImplementationType,
+  smartAccountImplementations,
+} from "../smart-accounts";
+import {
+  VAULT_AUTO_LOCK_MS,
+  VaultSecret,
+  VaultWallet,
+  saveVaultWallet,
+} from "../vault";
 
 // Import types
 import { SessionProposal, SessionRequest, WalletKitInstance } from "./types";
+import {
+  SessionPolicy,
+  buildSessionNamespaces,
+  defaultSessionPolicy,
+  evaluateSessionProposal,
+  findDappPolicy,
+  loadSessionPolicy,
+  saveSessionPolicy,
+} from "./policy";
+import {
+  AutoSignLogEntry,
+  appendAutoSignLog,
+  clearAutoSignLog,
+  loadAutoSignLog,
+  saveAutoSignRules,
+} from "./auto-sign";
+import { RequestOutcome, addRequestHistory } from "./history";
+import { getBridgeAccounts, getRequestAddress } from "./accounts";
 
 // Import components
 import SessionProposalModal from "./components/SessionProposalModal";
@@ -56,16 +106,57 @@ import WalletKitInitializer from "./components/WalletKitInitializer";
 import WalletKitEventHandler from "./components/WalletKitEventHandler";
 import ChainNotifier from "./components/ChainNotifier";
 import AutoPasteHandler from "./components/AutoPasteHandler";
+import SavedWallets from "./components/SavedWallets";
+import SessionPolicySettings from "./components/SessionPolicySettings";
+import AutoSignAuditLog from "./components/AutoSignAuditLog";
+import RequestHistory from "./components/RequestHistory";
 import { AnimatedSubtitle } from "./components/AnimatedSubtitle";
-import { filterActiveSessions } from "./utils";
+import {
+  decodeSignMessage,
+  filterActiveSessions,
+  formatTypedData,
+} from "./utils";
+import { decodeRecursive } from "@/lib/decoder";
+
+// Expand a URL template for every supported chain
+const getChainUrls = (url?: string) =>
+  url
+    ? walletChains.reduce<Record<number, string>>((urls, chain) => {
+        urls[chain.id] = url.replace("{chainId}", chain.id.toString());
+        return urls;
+      }, {})
+    : undefined;
+
+const isSameRequest = (a: SessionRequest, b: SessionRequest) =>
+  a.id === b.id && a.topic === b.topic;
+
+// Methods that have to be answered by the account the request is from
+const signingMethods = [
+  "eth_sendTransaction",
+  "eth_signTransaction",
+  "eth_sign",
+  "personal_sign",
+  "eth_signTypedData",
+  "eth_signTypedData_v3",
+  "eth_signTypedData_v4",
+  "wallet_sendCalls",
+];
 
 export default function WalletBridgePage() {
   const toast = useToast();
-  const { address, isConnected } = useAccount();
+  const { address, isConnected, connector } = useAccount();
   const { data: walletClient } = useWalletClient();
   const chainId = useChainId();
   const { switchChainAsync } = useSwitchChain();
-  const { connect } = useConnect();
+  const config = useConfig();
+  const { connect, connectAsync } = useConnect();
+  const { disconnect } = useDisconnect();
+  const connections = useConnections();
+  const { switchAccount } = useSwitchAccount();
+  const bridgeAccounts = useMemo(
+    () => getBridgeAccounts(connections),
+    [connections]
+  );
 
   // State for Frame
   const [isFrameSDKLoaded, setIsFrameSDKLoaded] = useState(false);
@@ -104,6 +195,162 @@ export default function WalletBridgePage() {
     type: "message" | "typedData";
     decoded: any;
   } | null>(null);
+  const [gasEstimate, setGasEstimate] =
+    useState<UserOperationGasEstimate | null>(null);
+  const [isEstimatingGas, setIsEstimatingGas] = useState<boolean>(false);
+
+  // Session proposal approval policy, persisted in localStorage
+  const [sessionPolicy, setSessionPolicy] =
+    useState<SessionPolicy>(defaultSessionPolicy);
+
+  useEffect(() => {
+    setSessionPolicy(loadSessionPolicy());
+  }, []);
+
+  const updateSessionPolicy = (policy: SessionPolicy) => {
+    setSessionPolicy(policy);
+    saveSessionPolicy(policy);
+  };
+
+  // Requests waiting for confirmation in arrival order, the modal shows one
+  // of them at a time
+  const [requestQueue, setRequestQueue] = useState<SessionRequest[]>([]);
+  const shownRequestRef = useRef<SessionRequest | null>(null);
+
+  const enqueueSessionRequest = useCallback((request: SessionRequest) => {
+    setRequestQueue((queue) => [...queue, request]);
+  }, []);
+
+  const dequeueSessionRequest = useCallback((request: SessionRequest) => {
+    setRequestQueue((queue) => queue.filter((x) => !isSameRequest(x, request)));
+    shownRequestRef.current = null;
+    setCurrentSessionRequest(null);
+  }, []);
+
+  const showSessionRequest = useCallback(
+    async (request: SessionRequest) => {
+      shownRequestRef.current = request;
+      setCurrentSessionRequest(request);
+
+      // Reset decoded data
+      setDecodedTxData(null);
+      setDecodedSignatureData(null);
+      setIsDecodingTx(false);
+
+      // Open the modal immediately
+      onSessionRequestOpen();
+
+      // Decode transaction data if it's a send or sign transaction request
+      if (
+        request.params.request.method === "eth_sendTransaction" ||
+        request.params.request.method === "eth_signTransaction"
+      ) {
+        try {
+          setIsDecodingTx(true);
+          const txData = request.params.request.params[0];
+
+          if (txData.data) {
+            const chainIdStr = request.params.chainId.split(":")[1];
+            const chainIdNum = parseInt(chainIdStr);
+
+            const decodedData = await decodeRecursive({
+              calldata: txData.data,
+              address: txData.to,
+              chainId: chainIdNum,
+            });
+
+            console.log("Decoded transaction data:", decodedData);
+            // Another queued request may be shown by now
+            if (shownRequestRef.current === request) {
+              setDecodedTxData(decodedData);
+            }
+          }
+        } catch (error) {
+          console.error("Error decoding transaction data:", error);
+        } finally {
+          if (shownRequestRef.current === request) setIsDecodingTx(false);
+        }
+      }
+      // Decode signature requests
+      else if (
+        request.params.request.method === "personal_sign" ||
+        request.params.request.method === "eth_sign"
+      ) {
+        try {
+          // For personal_sign, the message is the first parameter
+          // For eth_sign, the message is the second parameter (first is address)
+          const messageParam =
+            request.params.request.method === "personal_sign"
+              ? request.params.request.params[0]
+              : request.params.request.params[1];
+
+          const decodedMessage = decodeSignMessage(messageParam);
+          setDecodedSignatureData({
+            type: "message",
+            decoded: decodedMessage,
+          });
+        } catch (error) {
+          console.error("Error decoding signature message:", error);
+        }
+      }
+      // Decode typed data signing requests
+      else if (
+        request.params.request.method === "eth_signTypedData" ||
+        request.params.request.method === "eth_signTypedData_v3" ||
+        request.params.request.method === "eth_signTypedData_v4"
+      ) {
+        try {
+          // The typed data is usually the second parameter
+          const typedData = request.params.request.params[1];
+          const formattedTypedData = formatTypedData(typedData);
+
+          setDecodedSignatureData({
+            type: "typedData",
+            decoded: formattedTypedData,
+          });
+        } catch (error) {
+          console.error("Error decoding typed data:", error);
+        }
+      }
+    },
+    [onSessionRequestOpen]
+  );
+
+  // Show the oldest pending request once the current one is answered
+  useEffect(() => {
+    if (
+      requestQueue.length > 0 &&
+      (!currentSessionRequest ||
+        !requestQueue.some((x) => isSameRequest(x, currentSessionRequest)))
+    ) {
+      showSessionRequest(requestQueue[0]);
+    }
+  }, [requestQueue, currentSessionRequest, showSessionRequest]);
+
+  // Requests of disconnected sessions can't be answered anymore
+  useEffect(() => {
+    setRequestQueue((queue) => {
+      const remaining = queue.filter((request) =>
+        activeSessions.some((session) => session.topic === request.topic)
+      );
+      return remaining.length === queue.length ? queue : remaining;
+    });
+  }, [activeSessions]);
+
+  // Audit log of requests approved by the sessions' auto-signing rules
+  const [autoSignLog, setAutoSignLog] = useState<AutoSignLogEntry[]>([]);
+
+  useEffect(() => {
+    setAutoSignLog(loadAutoSignLog());
+  }, []);
+
+  // Bumped when a request is added to the history, to reload it
+  const [historyVersion, setHistoryVersion] = useState<number>(0);
+
+  const handleAutoSigned = useCallback((entry: AutoSignLogEntry) => {
+    setAutoSignLog(appendAutoSignLog(entry));
+    setHistoryVersion((version) => version + 1);
+  }, []);
 
   // Add a new state to track if we're switching chains
   const [isSwitchingChain, setIsSwitchingChain] = useState<boolean>(false);
@@ -113,22 +360,191 @@ export default function WalletBridgePage() {
   const [needsChainSwitch, setNeedsChainSwitch] = useState<boolean>(false);
   const [targetChainId, setTargetChainId] = useState<number | null>(null);
 
+  // Chain switches requested by dapps
+  const switchChain = useCallback(
+    async (chainId: number) => {
+      setIsSwitchingChain(true);
+      try {
+        await switchChainAsync({ chainId });
+      } finally {
+        setIsSwitchingChain(false);
+      }
+    },
+    [switchChainAsync]
+  );
+
   // State for HeadlessCSW form
   const [cswAddress, setCswAddress] = useState<string>("");
   const [recoveryPhrase, setRecoveryPhrase] = useState<string>("");
-  const [ownerIndex, setOwnerIndex] = useState<number>(0);
+  const [ownerIndex, setOwnerIndex] = useState<number | undefined>();
+  const [bundlerUrl, setBundlerUrl] = useState<string>("");
+  const [paymasterUrl, setPaymasterUrl] = useState<string>("");
+  const [accountImplementation, setAccountImplementation] =
+    useState<SmartAccountImplementationType>("coinbaseSmartWallet");
+  const [entryPointVersion, setEntryPointVersion] =
+    useState<EntryPointVersion>("0.6");
+  const [ownerType, setOwnerType] = useState<"recoveryPhrase" | "passkey">(
+    "recoveryPhrase"
+  );
+  const [passkeyCredential, setPasskeyCredential] =
+    useState<PasskeyCredential | null>(null);
   const [isConnecting, setIsConnecting] = useState<boolean>(false);
 
+  // State for the encrypted vault
+  const [saveToVault, setSaveToVault] = useState<boolean>(false);
+  const [vaultLabel, setVaultLabel] = useState<string>("");
+  const [vaultPassphrase, setVaultPassphrase] = useState<string>("");
+  const [unlockedWalletId, setUnlockedWalletId] = useState<string | null>(null);
+  // The vault wallet's connector, which may not be the active one after
+  // switching accounts
+  const vaultConnectorRef = useRef<Connector | null>(null);
+
+  const connectVaultWallet = async (
+    walletId: string,
+    connector: CreateConnectorFn
+  ) => {
+    await connectAsync({ connector });
+    vaultConnectorRef.current = getAccount(config).connector ?? null;
+    setUnlockedWalletId(walletId);
+  };
+
+  const handleVaultUnlock = (wallet: VaultWallet, secret: VaultSecret) => {
+    connectVaultWallet(
+      wallet.id,
+      headlessCSWConnector({
+        address: wallet.settings.address,
+        ownerIndex: wallet.settings.ownerIndex,
+        ownerPrivateKey: secret.ownerPrivateKey,
+        bundlerUrls: getChainUrls(secret.bundlerUrl),
+        paymasterUrls: getChainUrls(secret.paymasterUrl),
+        implementation: wallet.settings.implementation,
+        entryPointVersion: wallet.settings.entryPointVersion,
+      })
+    ).catch((error) => {
+      console.error("Error unlocking wallet:", error);
+      toast({
+        title: "Connection Failed",
+        description: (error as Error).message,
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+        position: "bottom-right",
+      });
+    });
+  };
+
+  // Disconnecting the vault wallet by hand locks it too
+  useEffect(() => {
+    const vaultConnector = vaultConnectorRef.current;
+    if (
+      vaultConnector &&
+      !connections.some(
+        (connection) => connection.connector.uid === vaultConnector.uid
+      )
+    ) {
+      vaultConnectorRef.current = null;
+      setUnlockedWalletId(null);
+    }
+  }, [connections]);
+
+  // Lock the vault wallet after inactivity, the owner key only lives in the
+  // connector so disconnecting drops it
+  useEffect(() => {
+    if (!isConnected || !unlockedWalletId) return;
+
+    const activityEvents = ["mousemove", "keydown", "pointerdown", "scroll"];
+    let timeout: ReturnType<typeof setTimeout>;
+
+    const resetTimer = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        if (vaultConnectorRef.current) {
+          disconnect({ connector: vaultConnectorRef.current });
+          vaultConnectorRef.current = null;
+        }
+        setUnlockedWalletId(null);
+        setRecoveryPhrase("");
+        toast({
+          title: "Wallet Locked",
+          description: "Unlock it again with your passphrase",
+          status: "info",
+          duration: 5000,
+          isClosable: true,
+          position: "bottom-right",
+        });
+      }, VAULT_AUTO_LOCK_MS);
+    };
+
+    activityEvents.forEach((event) =>
+      window.addEventListener(event, resetTimer)
+    );
+    resetTimer();
+
+    return () => {
+      clearTimeout(timeout);
+      activityEvents.forEach((event) =>
+        window.removeEventListener(event, resetTimer)
+      );
+    };
+  }, [isConnected, unlockedWalletId, disconnect, toast]);
+
   // HeadlessCSW Form Component
   const HeadlessCSWForm = () => {
     const formBg = useColorModeValue("gray.50", "gray.700");
     const borderColor = useColorModeValue("gray.200", "gray.600");
 
+    const usePasskey =
+      accountImplementation === "coinbaseSmartWallet" &&
+      ownerType === "passkey";
+
+    const handleSelectPasskey = async () => {
+      try {
+        setPasskeyCredential(await selectPasskey());
+      } catch (error) {
+        console.error("Passkey error:", error);
+        toast({
+          title: "Passkey Selection Failed",
+          description: (error as Error).message,
+          status: "error",
+          duration: 5000,
+          isClosable: true,
+          position: "bottom-right",
+        });
+      }
+    };
+
     const handleConnect = async () => {
-      if (!cswAddress || !recoveryPhrase) {
+      if (!cswAddress || (usePasskey ? !passkeyCredential : !recoveryPhrase)) {
+        toast({
+          title: "Missing Information",
+          description: usePasskey
+            ? "Please provide the address and select a passkey"
+            : "Please provide both address and recovery phrase",
+          status: "error",
+          duration: 3000,
+          isClosable: true,
+          position: "bottom-right",
+        });
+        return;
+      }
+
+      if (!usePasskey && saveToVault && !vaultPassphrase) {
+        toast({
+          title: "Missing Information",
+          description: "Please provide a passphrase to encrypt the wallet",
+          status: "error",
+          duration: 3000,
+          isClosable: true,
+          position: "bottom-right",
+        });
+        return;
+      }
+
+      // Passkeys can't pay for the owner's handleOps transaction
+      if (usePasskey && !bundlerUrl) {
         toast({
           title: "Missing Information",
-          description: "Please provide both address and recovery phrase",
+          description: "A bundler URL is required to use a passkey",
           status: "error",
           duration: 3000,
           isClosable: true,
@@ -141,34 +557,70 @@ export default function WalletBridgePage() {
         setIsConnecting(true);
 
         // Validate and derive private key from recovery phrase
-        const words = recoveryPhrase.trim().split(" ");
+        const getOwnerPrivateKey = () => {
+          const words = recoveryPhrase.trim().split(" ");
 
-        if (words[0]?.toLowerCase() !== "wallet") {
-          throw new Error(
-            `Invalid recovery phrase. The first word should be 'wallet'. Got: ${words[0]}`
-          );
-        }
+          // Only Coinbase Smart Wallet recovery phrases start with "wallet"
+          if (
+            accountImplementation === "coinbaseSmartWallet" &&
+            words[0]?.toLowerCase() !== "wallet"
+          ) {
+            throw new Error(
+              `Invalid recovery phrase. The first word should be 'wallet'. Got: ${words[0]}`
+            );
+          }
 
-        // Remove the first word "wallet"
-        const mnemonic = words.slice(1).join(" ");
+          // Remove the first word "wallet"
+          const mnemonic = (
+            words[0]?.toLowerCase() === "wallet" ? words.slice(1) : words
+          ).join(" ");
 
-        if (mnemonic.split(" ").length !== 12) {
-          throw new Error(
-            "Invalid recovery phrase. Expected 12 words (excluding 'wallet')."
-          );
-        }
+          if (mnemonic.split(" ").length !== 12) {
+            throw new Error(
+              "Invalid recovery phrase. Expected 12 words (excluding 'wallet')."
+            );
+          }
 
-        const recoveryOwnerAccount = mnemonicToAccount(mnemonic);
-        const privateKeyBytes = recoveryOwnerAccount.getHdKey().privateKey;
-        const ownerPrivateKey = bytesToHex(privateKeyBytes!);
+          const recoveryOwnerAccount = mnemonicToAccount(mnemonic);
+          const privateKeyBytes = recoveryOwnerAccount.getHdKey().privateKey;
+          return bytesToHex(privateKeyBytes!);
+        };
+
+        const ownerPrivateKey = usePasskey ? undefined : getOwnerPrivateKey();
+
+        let vaultWalletId: string | undefined;
+        if (ownerPrivateKey && saveToVault) {
+          const wallet = await saveVaultWallet({
+            label: vaultLabel || "Smart Wallet",
+            settings: {
+              address: cswAddress as Address,
+              ownerIndex,
+              implementation: accountImplementation,
+              entryPointVersion,
+            },
+            secret: { ownerPrivateKey, bundlerUrl, paymasterUrl },
+            passphrase: vaultPassphrase,
+          });
+          setVaultPassphrase("");
+          vaultWalletId = wallet.id;
+        }
 
-        connect({
-          connector: headlessCSWConnector({
-            address: cswAddress as `0x${string}`,
-            ownerIndex,
-            ownerPrivateKey: ownerPrivateKey as `0x${string}`,
-          }),
+        const cswConnector = headlessCSWConnector({
+          address: cswAddress as `0x${string}`,
+          ownerIndex,
+          ownerPrivateKey,
+          passkeyCredential:
+            usePasskey && passkeyCredential ? passkeyCredential : undefined,
+          bundlerUrls: getChainUrls(bundlerUrl),
+          paymasterUrls: getChainUrls(paymasterUrl),
+          implementation: accountImplementation,
+          entryPointVersion,
         });
+        if (vaultWalletId) {
+          await connectVaultWallet(vaultWalletId, cswConnector);
+        } else {
+          connect({ connector: cswConnector });
+        }
       } catch (error) {
         console.error("Connection error:", error);
         toast({
@@ -195,6 +647,50 @@ export default function WalletBridgePage() {
         <VStack spacing={4} align="stretch">
           <Heading size="md">Connect Headless Smart Wallet</Heading>
 
+          <HStack spacing={4}>
+            <FormControl>
+              <FormLabel>Account Type</FormLabel>
+              <Select
+                value={accountImplementation}
+                onChange={(e) => {
+                  const implementation = e.target
+                    .value as SmartAccountImplementationType;
+                  setAccountImplementation(implementation);
+                  setEntryPointVersion(
+                    smartAccountImplementations[implementation]
+                      .entryPointVersions[0]
+                  );
+                }}
+              >
+                {Object.entries(smartAccountImplementations).map(
+                  ([value, { name }]) => (
+                    <option key={value} value={value}>
+                      {name}
+                    </option>
+                  )
+                )}
+              </Select>
+            </FormControl>
+
+            <FormControl>
+              <FormLabel>EntryPoint</FormLabel>
+              <Select
+                value={entryPointVersion}
+                onChange={(e) =>
+                  setEntryPointVersion(e.target.value as EntryPointVersion)
+                }
+              >
+                {smartAccountImplementations[
+                  accountImplementation
+                ].entryPointVersions.map((version) => (
+                  <option key={version} value={version}>
+                    v{version}
+                  </option>
+                ))}
+              </Select>
+            </FormControl>
+          </HStack>
+
           <FormControl isRequired>
             <FormLabel>Smart Wallet Address</FormLabel>
             <Input
@@ -203,38 +699,143 @@ export default function WalletBridgePage() {
               onChange={(e) => setCswAddress(e.target.value)}
             />
             <FormHelperText>
-              The address of your Coinbase Smart Wallet
+              The address of your{" "}
+              {smartAccountImplementations[accountImplementation].name}
             </FormHelperText>
           </FormControl>
 
-          <FormControl isRequired>
-            <FormLabel>Recovery Phrase</FormLabel>
-            <Textarea
-              placeholder="wallet word1 word2 word3 ... word12"
-              value={recoveryPhrase}
-              onChange={(e) => setRecoveryPhrase(e.target.value)}
-              rows={3}
+          {accountImplementation === "coinbaseSmartWallet" && (
+            <FormControl>
+              <FormLabel>Owner</FormLabel>
+              <Select
+                value={ownerType}
+                onChange={(e) =>
+                  setOwnerType(e.target.value as "recoveryPhrase" | "passkey")
+                }
+              >
+                <option value="recoveryPhrase">Recovery phrase</option>
+                <option value="passkey">Passkey</option>
+              </Select>
+            </FormControl>
+          )}
+
+          {usePasskey ? (
+            <FormControl isRequired>
+              <FormLabel>Passkey</FormLabel>
+              <Button onClick={handleSelectPasskey} w="full">
+                {passkeyCredential
+                  ? `Passkey ${passkeyCredential.id.slice(0, 12)}...`
+                  : "Select Passkey"}
+              </Button>
+              <FormHelperText>
+                A passkey for this site that owns the wallet. Its public key is
+                matched against the wallet&apos;s owners, and a bundler is
+                required to send transactions
+              </FormHelperText>
+            </FormControl>
+          ) : (
+            <FormControl isRequired>
+              <FormLabel>Recovery Phrase</FormLabel>
+              <Textarea
+                placeholder="wallet word1 word2 word3 ... word12"
+                value={recoveryPhrase}
+                onChange={(e) => setRecoveryPhrase(e.target.value)}
+                rows={3}
+              />
+              <FormHelperText>
+                {accountImplementation === "coinbaseSmartWallet"
+                  ? "Recovery phrase starting with 'wallet' followed by 12 words"
+                  : "12 word mnemonic of the account's owner key"}
+              </FormHelperText>
+            </FormControl>
+          )}
+
+          {accountImplementation === "coinbaseSmartWallet" && (
+            <FormControl>
+              <FormLabel>Owner Index</FormLabel>
+              <NumberInput
+                value={ownerIndex ?? ""}
+                onChange={(valueString, value) =>
+                  setOwnerIndex(valueString === "" ? undefined : value)
+                }
+                min={0}
+              >
+                <NumberInputField />
+                <NumberInputStepper>
+                  <NumberIncrementStepper />
+                  <NumberDecrementStepper />
+                </NumberInputStepper>
+              </NumberInput>
+              <FormHelperText>
+                Index of the owner (leave empty to auto-detect)
+              </FormHelperText>
+            </FormControl>
+          )}
+
+          <FormControl>
+            <FormLabel>Bundler URL</FormLabel>
+            <Input
+              placeholder="https://api.pimlico.io/v2/{chainId}/rpc?apikey=..."
+              value={bundlerUrl}
+              onChange={(e) => setBundlerUrl(e.target.value)}
             />
             <FormHelperText>
-              Recovery phrase starting with 'wallet' followed by 12 words
+              Optional ERC-4337 bundler RPC, {"{chainId}"} is replaced with the
+              chain id. Without it the owner key pays gas to submit transactions
+              itself
             </FormHelperText>
           </FormControl>
 
-          <FormControl>
-            <FormLabel>Owner Index</FormLabel>
-            <NumberInput
-              value={ownerIndex}
-              onChange={(_, value) => setOwnerIndex(value || 0)}
-              min={0}
-            >
-              <NumberInputField />
-              <NumberInputStepper>
-                <NumberIncrementStepper />
-                <NumberDecrementStepper />
-              </NumberInputStepper>
-            </NumberInput>
-            <FormHelperText>Index of the owner (default: 0)</FormHelperText>
-          </FormControl>
+          {bundlerUrl && (
+            <FormControl>
+              <FormLabel>Paymaster URL</FormLabel>
+              <Input
+                placeholder="https://api.pimlico.io/v2/{chainId}/rpc?apikey=..."
+                value={paymasterUrl}
+                onChange={(e) => setPaymasterUrl(e.target.value)}
+              />
+              <FormHelperText>
+                Optional ERC-7677 paymaster sponsoring the gas, so a wallet
+                without ETH can still transact. Dapps can request their own with
+                the paymasterService capability
+              </FormHelperText>
+            </FormControl>
+          )}
+
+          {!usePasskey && (
+            <FormControl display="flex" alignItems="center">
+              <FormLabel mb={0}>Save encrypted in this browser</FormLabel>
+              <Switch
+                isChecked={saveToVault}
+                onChange={(e) => setSaveToVault(e.target.checked)}
+              />
+            </FormControl>
+          )}
+
+          {!usePasskey && saveToVault && (
+            <HStack spacing={4} align="flex-start">
+              <FormControl>
+                <FormLabel>Label</FormLabel>
+                <Input
+                  placeholder="Smart Wallet"
+                  value={vaultLabel}
+                  onChange={(e) => setVaultLabel(e.target.value)}
+                />
+              </FormControl>
+              <FormControl isRequired>
+                <FormLabel>Passphrase</FormLabel>
+                <Input
+                  type="password"
+                  value={vaultPassphrase}
+                  onChange={(e) => setVaultPassphrase(e.target.value)}
+                />
+                <FormHelperText>
+                  Encrypts the owner key, a forgotten passphrase is
+                  unrecoverable
+                </FormHelperText>
+              </FormControl>
+            </HStack>
+          )}
 
           <Button
             colorScheme="blue"
@@ -249,6 +850,48 @@ export default function WalletBridgePage() {
     );
   };
 
+  const recordSessionRequest = useCallback(
+    async (
+      request: SessionRequest,
+      outcome: RequestOutcome,
+      details: { result?: unknown; error?: string } = {}
+    ) => {
+      try {
+        await addRequestHistory({
+          request,
+          metadata:
+            walletKit?.getActiveSessions()[request.topic]?.peer.metadata,
+          outcome,
+          // Only the shown request has been decoded
+          decoded:
+            currentSessionRequest &&
+            isSameRequest(request, currentSessionRequest)
+              ? decodedTxData ?? decodedSignatureData?.decoded
+              : undefined,
+          ...details,
+        });
+        setHistoryVersion((version) => version + 1);
+      } catch (error) {
+        console.error("Error saving request history:", error);
+        toast({
+          title: "Failed to save request history",
+          description: (error as Error).message,
+          status: "error",
+          duration: 5000,
+          isClosable: true,
+          position: "bottom-right",
+        });
+      }
+    },
+    [
+      walletKit,
+      currentSessionRequest,
+      decodedTxData,
+      decodedSignatureData,
+      toast,
+    ]
+  );
+
   // Handle session request (like eth_sendTransaction)
   const handleSessionRequest = useCallback(
     async (approve: boolean) => {
@@ -264,6 +907,24 @@ export default function WalletBridgePage() {
 
           setPendingRequest(true);
 
+          // Requests are signed by the account they are sent from
+          const requestAddress = getRequestAddress(
+            currentSessionRequest,
+            walletKit.getActiveSessions()[topic]
+          );
+          if (
+            signingMethods.includes(request.method) &&
+            requestAddress &&
+            address &&
+            !isAddressEqual(requestAddress, address)
+          ) {
+            throw new UnauthorizedProviderError(
+              new Error(
+                `The request is from ${requestAddress}, switch to it in your wallet first`
+              )
+            );
+          }
+
           // Handle different request methods
           if (request.method === "eth_sendTransaction") {
             const txParams = request.params[0];
@@ -278,6 +939,48 @@ export default function WalletBridgePage() {
             });
 
             result = hash;
+          } else if (request.method === "eth_signTransaction") {
+            // Smart accounts can't produce a signed transaction for the dapp
+            if (connector?.type === headlessCSWConnector.type) {
+              throw new UnsupportedProviderMethodError(
+                new Error(
+                  "eth_signTransaction is not supported by smart accounts"
+                )
+              );
+            }
+
+            const txParams = request.params[0];
+
+            // Fill in the nonce, gas and fees the dapp left out
+            const baseRequest = {
+              account: address as `0x${string}`,
+              chain: walletClient.chain,
+              to: txParams.to as `0x${string}` | undefined,
+              value: txParams.value ? BigInt(txParams.value) : undefined,
+              data: txParams.data as `0x${string}` | undefined,
+              gas: txParams.gas ? BigInt(txParams.gas) : undefined,
+              nonce:
+                txParams.nonce !== undefined
+                  ? Number(txParams.nonce)
+                  : undefined,
+            };
+            const txRequest = txParams.gasPrice
+              ? await walletClient.prepareTransactionRequest({
+                  ...baseRequest,
+                  gasPrice: BigInt(txParams.gasPrice),
+                })
+              : await walletClient.prepareTransactionRequest({
+                  ...baseRequest,
+                  maxFeePerGas: txParams.maxFeePerGas
+                    ? BigInt(txParams.maxFeePerGas)
+                    : undefined,
+                  maxPriorityFeePerGas: txParams.maxPriorityFeePerGas
+                    ? BigInt(txParams.maxPriorityFeePerGas)
+                    : undefined,
+                });
+
+            // RLP encoded and signed, the dapp broadcasts it
+            result = await walletClient.signTransaction(txRequest);
           } else if (
             request.method === "personal_sign" ||
             request.method === "eth_sign"
@@ -309,33 +1012,12 @@ export default function WalletBridgePage() {
             });
 
             result = signature;
-          } else if (request.method === "wallet_switchEthereumChain") {
-            // Handle chain switching request
-            const requestedChainId = parseInt(request.params[0].chainId);
-
-            // Switch chain using wagmi
-            setIsSwitchingChain(true);
-            await switchChainAsync({ chainId: requestedChainId });
-            setIsSwitchingChain(false);
-
-            // Return success
-            result = null;
-          } else if (request.method === "wallet_addEthereumChain") {
-            // For adding a new chain, we'll just show a toast for now
-            // In a real implementation, you might want to add the chain to your wallet
-            const chainParams = request.params[0];
-
-            toast({
-              title: "Add Chain Request",
-              description: `Request to add chain ${chainParams.chainName} (${chainParams.chainId})`,
-              status: "info",
-              duration: 5000,
-              isClosable: true,
-              position: "bottom-right",
-            });
-
-            // Return success
-            result = null;
+          } else if (request.method === "wallet_sendCalls") {
+            // Batched calls are executed by the connected wallet's provider
+            result = await walletClient.request({
+              method: "wallet_sendCalls",
+              params: request.params,
+            } as any);
           } else {
             // For other methods, just return success
             result = "0x";
@@ -350,6 +1032,8 @@ export default function WalletBridgePage() {
               result,
             },
           });
+          recordSessionRequest(currentSessionRequest, "approved", { result });
+          dequeueSessionRequest(currentSessionRequest);
 
           setPendingRequest(false);
           setNeedsChainSwitch(false);
@@ -376,6 +1060,8 @@ export default function WalletBridgePage() {
               },
             },
           });
+          recordSessionRequest(currentSessionRequest, "rejected");
+          dequeueSessionRequest(currentSessionRequest);
 
           toast({
             title: "Request rejected",
@@ -391,6 +1077,45 @@ export default function WalletBridgePage() {
       } catch (error) {
         console.error("Error handling session request:", error);
         setPendingRequest(false);
+
+        // Methods the wallet can't support are answered with the EIP-1193
+        // error instead of leaving the dapp waiting
+        if (
+          approve &&
+          (error instanceof UnsupportedProviderMethodError ||
+            error instanceof UnauthorizedProviderError) &&
+          walletKit &&
+          currentSessionRequest
+        ) {
+          await walletKit
+            .respondSessionRequest({
+              topic: currentSessionRequest.topic,
+              response: {
+                id: currentSessionRequest.id,
+                jsonrpc: "2.0",
+                error: { code: error.code, message: error.details },
+              },
+            })
+            .catch((respondError) =>
+              console.error("Error responding to request:", respondError)
+            );
+          recordSessionRequest(currentSessionRequest, "failed", {
+            error: error.details,
+          });
+          dequeueSessionRequest(currentSessionRequest);
+          onSessionRequestClose();
+
+          toast({
+            title: "Unsupported request",
+            description: error.details,
+            status: "warning",
+            duration: 5000,
+            isClosable: true,
+            position: "bottom-right",
+          });
+          return;
+        }
+
         setIsSwitchingChain(false);
         setNeedsChainSwitch(false);
         setTargetChainId(null);
@@ -433,6 +1158,12 @@ export default function WalletBridgePage() {
           }
         }
 
+        if (approve) {
+          recordSessionRequest(currentSessionRequest, "failed", {
+            error: errorMessage,
+          });
+        }
+
         toast({
           title: "Error",
           description: `Failed to ${
@@ -453,48 +1184,87 @@ export default function WalletBridgePage() {
       currentSessionRequest,
       walletClient,
       address,
+      connector,
       toast,
-      switchChainAsync,
       onSessionRequestClose,
+      recordSessionRequest,
+      dequeueSessionRequest,
     ]
   );
 
+  // Step through the pending requests without answering them
+  const stepSessionRequest = useCallback(
+    (offset: number) => {
+      if (!currentSessionRequest) return;
+
+      const index = requestQueue.findIndex((x) =>
+        isSameRequest(x, currentSessionRequest)
+      );
+      const next = requestQueue[index + offset];
+      if (next) showSessionRequest(next);
+    },
+    [currentSessionRequest, requestQueue, showSessionRequest]
+  );
+
+  const rejectAllSessionRequests = useCallback(async () => {
+    if (!walletKit) return;
+
+    const rejected = await Promise.allSettled(
+      requestQueue.map(async (request) => {
+        await walletKit.respondSessionRequest({
+          topic: request.topic,
+          response: {
+            id: request.id,
+            jsonrpc: "2.0",
+            error: { code: 4001, message: "User rejected the request" },
+          },
+        });
+        await recordSessionRequest(request, "rejected");
+        dequeueSessionRequest(request);
+      })
+    );
+    onSessionRequestClose();
+
+    const failed = rejected.filter((x) => x.status === "rejected").length;
+    toast({
+      title: `Rejected ${rejected.length - failed} requests`,
+      description: failed ? `${failed} could not be rejected` : undefined,
+      status: failed ? "warning" : "info",
+      duration: 3000,
+      isClosable: true,
+      position: "bottom-right",
+    });
+  }, [
+    walletKit,
+    requestQueue,
+    recordSessionRequest,
+    dequeueSessionRequest,
+    onSessionRequestClose,
+    toast,
+  ]);
+
   // Custom close handler for session request modal
   const handleSessionRequestClose = useCallback(() => {
-    // If there's an active request, reject it when closing the modal
-    if (
-      currentSessionRequest &&
-      walletKit &&
-      !pendingRequest &&
-      !isSwitchingChain
-    ) {
+    // The request is being answered, closing would show it again from the
+    // queue and answer it a second time
+    if (pendingRequest || isSwitchingChain) {
+      toast({
+        title: "Request in progress",
+        description: "Wait for the request to finish before closing.",
+        status: "warning",
+        duration: 3000,
+        isClosable: true,
+        position: "bottom-right",
+      });
+      return;
+    }
+
+    // Closing the modal rejects the request
+    if (currentSessionRequest && walletKit) {
       handleSessionRequest(false);
     } else {
-      // Just close the modal without rejecting if we're in the middle of processing
       onSessionRequestClose();
       setCurrentSessionRequest(null);
-
-      // Show a warning toast if closing during processing
-      if (pendingRequest || isSwitchingChain) {
-        handleSessionRequest(false);
-        toast({
-          title: "Request in progress",
-          description:
-            "The request might still be processing in the background. You can check the status in your wallet.",
-          status: "warning",
-          duration: 5000,
-          isClosable: true,
-          position: "bottom-right",
-        });
-
-        // Reset states after a delay to ensure UI is responsive
-        setTimeout(() => {
-          setPendingRequest(false);
-          setIsSwitchingChain(false);
-          setNeedsChainSwitch(false);
-          setTargetChainId(null);
-        }, 500);
-      }
     }
   }, [
     currentSessionRequest,
@@ -534,36 +1304,22 @@ export default function WalletBridgePage() {
     }
   }, [walletKit, uri, toast]);
 
+  const refreshActiveSessions = useCallback(() => {
+    if (!walletKit) return;
+    const sessions = walletKit.getActiveSessions();
+    setActiveSessions(filterActiveSessions(Object.values(sessions)));
+  }, [walletKit]);
+
   // Approve session proposal
   const approveSessionProposal = useCallback(async () => {
     if (!walletKit || !currentSessionProposal || !address) return;
 
     try {
-      // Get the supported chains from walletChains
-      const chains = walletChains.map((chain) => `eip155:${chain.id}`);
-      const accounts = chains.map((chain) => `${chain}:${address}`);
-
-      const namespaces = buildApprovedNamespaces({
-        proposal: currentSessionProposal.params,
-        supportedNamespaces: {
-          eip155: {
-            chains,
-            accounts,
-            methods: [
-              "eth_sendTransaction",
-              "eth_sign",
-              "personal_sign",
-              "eth_signTransaction",
-              "eth_signTypedData",
-              "eth_signTypedData_v3",
-              "eth_signTypedData_v4",
-              "wallet_switchEthereumChain",
-              "wallet_addEthereumChain",
-            ],
-            events: ["chainChanged", "accountsChanged"],
-          },
-        },
-      });
+      const namespaces = buildSessionNamespaces(
+        currentSessionProposal,
+        address,
+        findDappPolicy(sessionPolicy, currentSessionProposal)
+      );
 
       console.log("Approving session with namespaces:", namespaces);
 
@@ -601,6 +1357,7 @@ export default function WalletBridgePage() {
     walletKit,
     currentSessionProposal,
     address,
+    sessionPolicy,
     onSessionProposalClose,
     toast,
   ]);
@@ -682,6 +1439,7 @@ export default function WalletBridgePage() {
             message: "User disconnected the session",
           },
         });
+        saveAutoSignRules(topic, []);
 
         // Update active sessions
         const sessions = walletKit.getActiveSessions();
@@ -727,6 +1485,36 @@ export default function WalletBridgePage() {
     }
   }, [isFrameSDKLoaded]);
 
+  // Route the request to the connection that holds its account
+  useEffect(() => {
+    if (!currentSessionRequest || !walletKit || !address) return;
+
+    const requestAddress = getRequestAddress(
+      currentSessionRequest,
+      walletKit.getActiveSessions()[currentSessionRequest.topic]
+    );
+    if (!requestAddress || isAddressEqual(requestAddress, address)) return;
+
+    const account = bridgeAccounts.find((x) =>
+      isAddressEqual(x.address, requestAddress)
+    );
+    const owner = connections.find(
+      (connection) => connection.connector.uid === account?.connectorUid
+    );
+    if (owner && owner.connector.uid !== connector?.uid) {
+      console.log(`Switching to ${owner.connector.name} for ${requestAddress}`);
+      switchAccount({ connector: owner.connector });
+    }
+  }, [
+    currentSessionRequest,
+    walletKit,
+    address,
+    bridgeAccounts,
+    connections,
+    connector,
+    switchAccount,
+  ]);
+
   // Check if chain switch is needed when session request changes
   useEffect(() => {
     if (currentSessionRequest && chainId) {
@@ -746,7 +1534,8 @@ export default function WalletBridgePage() {
           request.method === "personal_sign" ||
           request.method === "eth_signTypedData" ||
           request.method === "eth_signTypedData_v3" ||
-          request.method === "eth_signTypedData_v4");
+          request.method === "eth_signTypedData_v4" ||
+          request.method === "wallet_sendCalls");
 
       setNeedsChainSwitch(requiresChainSwitch);
       setTargetChainId(requiresChainSwitch ? requestedChainId : null);
@@ -756,6 +1545,43 @@ export default function WalletBridgePage() {
     }
   }, [currentSessionRequest, chainId]);
 
+  // Estimate the user operation cost when the headless smart wallet is used
+  useEffect(() => {
+    setGasEstimate(null);
+
+    if (
+      !currentSessionRequest ||
+      needsChainSwitch ||
+      currentSessionRequest.params.request.method !== "eth_sendTransaction" ||
+      !isHeadlessCSWConnector(connector)
+    )
+      return;
+
+    const txParams = currentSessionRequest.params.request.params[0];
+    let cancelled = false;
+
+    setIsEstimatingGas(true);
+    connector
+      .estimateUserOperation({
+        to: txParams.to,
+        data: txParams.data,
+        value: txParams.value ? BigInt(txParams.value) : undefined,
+      })
+      .then((estimate) => {
+        if (!cancelled) setGasEstimate(estimate);
+      })
+      .catch((error: unknown) => {
+        console.error("Error estimating user operation gas:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsEstimatingGas(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentSessionRequest, needsChainSwitch, connector, chainId]);
+
   return (
     <Box w="full" mt="-2rem">
       {/* Banner for Web3 App Store */}
@@ -842,14 +1668,14 @@ export default function WalletBridgePage() {
         <WalletKitEventHandler
           walletKit={walletKit}
           address={address}
+          walletClient={walletClient}
+          sessionPolicy={sessionPolicy}
           setCurrentSessionProposal={setCurrentSessionProposal}
-          setCurrentSessionRequest={setCurrentSessionRequest}
-          setDecodedTxData={setDecodedTxData}
-          setIsDecodingTx={setIsDecodingTx}
-          setDecodedSignatureData={setDecodedSignatureData}
           setActiveSessions={setActiveSessions}
           onSessionProposalOpen={onSessionProposalOpen}
-          onSessionRequestOpen={onSessionRequestOpen}
+          enqueueSessionRequest={enqueueSessionRequest}
+          onAutoSigned={handleAutoSigned}
+          switchChain={switchChain}
         />
 
         {/* Notify dApps about chain changes */}
@@ -891,6 +1717,16 @@ export default function WalletBridgePage() {
                 <Text fontSize="xs" color="gray.500">
                   {address?.slice(0, 6)}...{address?.slice(-4)}
                 </Text>
+                {requestQueue.length > 0 && (
+                  <Badge
+                    colorScheme="orange"
+                    cursor="pointer"
+                    onClick={onSessionRequestOpen}
+                  >
+                    {requestQueue.length} pending{" "}
+                    {requestQueue.length === 1 ? "request" : "requests"}
+                  </Badge>
+                )}
               </Box>
             )}
           </Flex>
@@ -925,6 +1761,7 @@ export default function WalletBridgePage() {
                     <Text mb={{ base: 3, md: 4 }}>
                       Please connect your wallet to use WalletBridge
                     </Text>
+                    <SavedWallets onUnlock={handleVaultUnlock} />
                     <HeadlessCSWForm />
                   </Box>
                 )}
@@ -940,10 +1777,28 @@ export default function WalletBridgePage() {
 
                 {/* Active Sessions section */}
                 <ActiveSessions
+                  walletKit={walletKit}
                   isConnected={isConnected}
                   activeSessions={activeSessions}
+                  accounts={bridgeAccounts}
                   chainId={chainId}
                   disconnectSession={disconnectSession}
+                  onSessionsUpdated={refreshActiveSessions}
+                />
+
+                <RequestHistory version={historyVersion} />
+
+                <AutoSignAuditLog
+                  log={autoSignLog}
+                  onClear={() => {
+                    clearAutoSignLog();
+                    setAutoSignLog([]);
+                  }}
+                />
+
+                <SessionPolicySettings
+                  policy={sessionPolicy}
+                  onChange={updateSessionPolicy}
                 />
               </>
             )}
@@ -955,6 +1810,11 @@ export default function WalletBridgePage() {
           isOpen={isSessionProposalOpen}
           onClose={onSessionProposalClose}
           currentSessionProposal={currentSessionProposal}
+          policyDecision={
+            currentSessionProposal
+              ? evaluateSessionProposal(sessionPolicy, currentSessionProposal)
+              : null
+          }
           onApprove={approveSessionProposal}
           onReject={rejectSessionProposal}
         />
@@ -971,9 +1831,22 @@ export default function WalletBridgePage() {
           isSwitchingChain={isSwitchingChain}
           needsChainSwitch={needsChainSwitch}
           targetChainId={targetChainId}
+          gasEstimate={gasEstimate}
+          isEstimatingGas={isEstimatingGas}
           onApprove={() => handleSessionRequest(true)}
           onReject={() => handleSessionRequest(false)}
           onChainSwitch={handleChainSwitch}
+          queuePosition={
+            currentSessionRequest
+              ? requestQueue.findIndex((x) =>
+                  isSameRequest(x, currentSessionRequest)
+                ) + 1
+              : 0
+          }
+          queueLength={requestQueue.length}
+          onPrevious={() => stepSessionRequest(-1)}
+          onNext={() => stepSessionRequest(1)}
+          onRejectAll={rejectAllSessionRequests}
         />
       </Container>
     </Box>
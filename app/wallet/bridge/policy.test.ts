@@ -0,0 +1,151 @@
+import { base, mainnet, optimism } from "viem/chains";
+import { describe, expect, it, vi } from "vitest";
+import { SessionProposal, VerifyContext } from "./types";
+
+// the providers module sets up the wagmi config, only the chains are needed
+vi.mock("@/app/providers", () => ({
+  walletChains: [mainnet, base, optimism],
+}));
+
+import {
+  SessionPolicy,
+  buildSessionNamespaces,
+  evaluateSessionProposal,
+  isSessionChainAllowed,
+} from "./policy";
+
+const address = "0x1111111111111111111111111111111111111111";
+
+const proposal = ({
+  url = "https://app.uniswap.org",
+  verified = { origin: url, validation: "VALID" },
+}: {
+  url?: string;
+  verified?: Partial<VerifyContext["verified"]>;
+} = {}): SessionProposal => ({
+  id: 1,
+  verifyContext: {
+    verified: { origin: "", validation: "UNKNOWN", verifyUrl: "", ...verified },
+  },
+  params: {
+    id: 1,
+    pairingTopic: "topic",
+    expiryTimestamp: 0,
+    relays: [{ protocol: "irn" }],
+    proposer: {
+      publicKey: "key",
+      metadata: { name: "Dapp", description: "", url, icons: [] },
+    },
+    requiredNamespaces: {},
+    optionalNamespaces: {
+      eip155: {
+        chains: ["eip155:1", "eip155:8453", "eip155:10"],
+        methods: [
+          "eth_sendTransaction",
+          "personal_sign",
+          "eth_signTypedData_v4",
+        ],
+        events: ["chainChanged", "accountsChanged"],
+      },
+    },
+  },
+});
+
+const policy = (
+  mode: SessionPolicy["mode"],
+  dapps: SessionPolicy["dapps"] = []
+): SessionPolicy => ({ mode, dapps });
+
+describe("evaluateSessionProposal", () => {
+  it("approves verified dapps in auto mode and asks otherwise", () => {
+    expect(evaluateSessionProposal(policy("auto"), proposal()).action).toBe(
+      "approve"
+    );
+    expect(evaluateSessionProposal(policy("ask"), proposal()).action).toBe(
+      "ask"
+    );
+  });
+
+  it("matches dapps by origin, including subdomain wildcards", () => {
+    const dapps = policy("ask", [
+      { origin: "*.uniswap.org", access: "allow", chainIds: [], methods: [] },
+      { origin: "evil.xyz", access: "deny", chainIds: [], methods: [] },
+    ]);
+
+    expect(evaluateSessionProposal(dapps, proposal()).action).toBe("approve");
+    expect(
+      evaluateSessionProposal(dapps, proposal({ url: "https://evil.xyz" }))
+    ).toMatchObject({ action: "reject", reason: "Dapp is on the denylist" });
+  });
+
+  it("asks for unverified or scam domains even when allowlisted", () => {
+    const dapps = policy("auto", [
+      { origin: "app.uniswap.org", access: "allow", chainIds: [], methods: [] },
+    ]);
+
+    expect(
+      evaluateSessionProposal(
+        dapps,
+        proposal({ verified: { validation: "INVALID" } })
+      )
+    ).toMatchObject({
+      action: "ask",
+      reason: "Domain doesn't match the dapp's metadata",
+    });
+    expect(
+      evaluateSessionProposal(
+        dapps,
+        proposal({ verified: { validation: "VALID", isScam: true } })
+      )
+    ).toMatchObject({ action: "ask", reason: "Domain is flagged as a scam" });
+  });
+});
+
+describe("buildSessionNamespaces", () => {
+  it("limits the session to the dapp's chains and methods", () => {
+    const namespaces = buildSessionNamespaces(proposal(), address, {
+      origin: "app.uniswap.org",
+      access: "allow",
+      chainIds: [8453],
+      methods: ["personal_sign"],
+    });
+
+    expect(namespaces.eip155.chains).toEqual(["eip155:8453"]);
+    expect(namespaces.eip155.accounts).toEqual([`eip155:8453:${address}`]);
+    expect(namespaces.eip155.methods).toEqual(["personal_sign"]);
+  });
+});
+
+describe("isSessionChainAllowed", () => {
+  const session = {
+    peer: { metadata: { url: "https://app.uniswap.org" } },
+    namespaces: {
+      eip155: {
+        accounts: [`eip155:1:${address}`, `eip155:8453:${address}`],
+      },
+    },
+  };
+
+  it("only allows the session's chains", () => {
+    expect(isSessionChainAllowed(policy("auto"), session, 8453)).toBe(true);
+    expect(isSessionChainAllowed(policy("auto"), session, 10)).toBe(false);
+  });
+
+  it("applies the dapp's current policy", () => {
+    const limited = policy("auto", [
+      {
+        origin: "app.uniswap.org",
+        access: "allow",
+        chainIds: [1],
+        methods: [],
+      },
+    ]);
+    const denied = policy("auto", [
+      { origin: "app.uniswap.org", access: "deny", chainIds: [], methods: [] },
+    ]);
+
+    expect(isSessionChainAllowed(limited, session, 1)).toBe(true);
+    expect(isSessionChainAllowed(limited, session, 8453)).toBe(false);
+    expect(isSessionChainAllowed(denied, session, 1)).toBe(false);
+  });
+});
@@ -0,0 +1,179 @@
+import { buildApprovedNamespaces } from "@walletconnect/utils";
+import { walletChains } from "@/app/providers";
+import { SessionProposal } from "./types";
+
+// Methods the bridge can answer, each session gets the ones the dapp asked for
+export const supportedSessionMethods = [
+  "eth_sendTransaction",
+  "eth_sign",
+  "personal_sign",
+  "eth_signTransaction",
+  "eth_signTypedData",
+  "eth_signTypedData_v3",
+  "eth_signTypedData_v4",
+  "wallet_switchEthereumChain",
+  "wallet_addEthereumChain",
+  "wallet_sendCalls",
+  "wallet_getCallsStatus",
+  "wallet_showCallsStatus",
+  "wallet_getCapabilities",
+];
+
+export type DappPolicy = {
+  /** Hostname, `*.example.com` also matches its subdomains */
+  origin: string;
+  access: "allow" | "deny";
+  /** Chains and methods the session is limited to, all when empty */
+  chainIds: number[];
+  methods: string[];
+};
+
+export type SessionPolicy = {
+  /** Approve proposals from dapps without a rule, or ask every time */
+  mode: "auto" | "ask";
+  dapps: DappPolicy[];
+};
+
+export type SessionPolicyDecision = {
+  action: "approve" | "ask" | "reject";
+  reason?: string;
+  dapp?: DappPolicy;
+};
+
+export const defaultSessionPolicy: SessionPolicy = { mode: "auto", dapps: [] };
+
+const STORAGE_KEY = "sessionPolicy";
+
+export const loadSessionPolicy = (): SessionPolicy => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : defaultSessionPolicy;
+  } catch {
+    return defaultSessionPolicy;
+  }
+};
+
+export const saveSessionPolicy = (policy: SessionPolicy) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(policy));
+};
+
+const toHostname = (origin: string) => {
+  try {
+    return new URL(origin).hostname.toLowerCase();
+  } catch {
+    return origin.toLowerCase();
+  }
+};
+
+// Verified origin when available, the dapp's self-reported URL otherwise
+export const getProposalHostname = (proposal: SessionProposal) =>
+  toHostname(
+    proposal.verifyContext?.verified.origin ||
+      proposal.params.proposer.metadata.url
+  );
+
+const matchesOrigin = (pattern: string, hostname: string) => {
+  const normalized = pattern.trim().toLowerCase();
+  if (normalized.startsWith("*.")) {
+    const domain = normalized.slice(2);
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  }
+  return hostname === normalized;
+};
+
+export const findDappPolicy = (
+  policy: SessionPolicy,
+  proposal: SessionProposal
+) => {
+  const hostname = getProposalHostname(proposal);
+  return policy.dapps.find((dapp) => matchesOrigin(dapp.origin, hostname));
+};
+
+// Established sessions only have the metadata URL the dapp connected with
+export const findSessionDappPolicy = (policy: SessionPolicy, session: any) => {
+  const hostname = toHostname(session?.peer.metadata.url ?? "");
+  return policy.dapps.find((dapp) => matchesOrigin(dapp.origin, hostname));
+};
+
+// Dapps can only move the wallet to chains their session was approved for,
+// and that their policy still allows
+export const isSessionChainAllowed = (
+  policy: SessionPolicy,
+  session: any,
+  chainId: number
+) => {
+  const eip155 = session?.namespaces.eip155;
+  const sessionChains: string[] = [
+    ...(eip155?.chains ?? []),
+    ...((eip155?.accounts ?? []) as string[]).map((account) =>
+      account.split(":").slice(0, 2).join(":")
+    ),
+  ];
+  if (!sessionChains.includes(`eip155:${chainId}`)) return false;
+
+  const dapp = findSessionDappPolicy(policy, session);
+  return (
+    dapp?.access !== "deny" &&
+    (!dapp?.chainIds.length || dapp.chainIds.includes(chainId))
+  );
+};
+
+export const evaluateSessionProposal = (
+  policy: SessionPolicy,
+  proposal: SessionProposal
+): SessionPolicyDecision => {
+  const dapp = findDappPolicy(policy, proposal);
+  if (dapp?.access === "deny") {
+    return { action: "reject", reason: "Dapp is on the denylist", dapp };
+  }
+
+  // Unverified or flagged domains always need a manual decision, even when
+  // allowlisted, since the origin could be spoofed
+  const verified = proposal.verifyContext?.verified;
+  if (verified?.isScam) {
+    return { action: "ask", reason: "Domain is flagged as a scam", dapp };
+  }
+  if (verified?.validation !== "VALID") {
+    return {
+      action: "ask",
+      reason:
+        verified?.validation === "INVALID"
+          ? "Domain doesn't match the dapp's metadata"
+          : "Domain could not be verified",
+      dapp,
+    };
+  }
+
+  if (dapp?.access === "allow" || policy.mode === "auto") {
+    return { action: "approve", dapp };
+  }
+  return { action: "ask", dapp };
+};
+
+// Namespaces for the dapp's session, restricted to the chains and methods its
+// policy allows
+export const buildSessionNamespaces = (
+  proposal: SessionProposal,
+  address: string,
+  dapp?: DappPolicy
+) => {
+  const chains = walletChains
+    .filter(
+      (chain) => !dapp?.chainIds.length || dapp.chainIds.includes(chain.id)
+    )
+    .map((chain) => `eip155:${chain.id}`);
+
+  return buildApprovedNamespaces({
+    proposal: proposal.params,
+    supportedNamespaces: {
+      eip155: {
+        chains,
+        accounts: chains.map((chain) => `${chain}:${address}`),
+        methods: supportedSessionMethods.filter(
+          (method) => !dapp?.methods.length || dapp.methods.includes(method)
+        ),
+        events: ["chainChanged", "accountsChanged"],
+      },
+    },
+  });
+};
@@ -0,0 +1,202 @@
+import { encodeFunctionData, maxUint256, parseAbi } from "viem";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getRiskWarnings } from "./risk";
+
+const token = "0x1111111111111111111111111111111111111111";
+const spender = "0x2222222222222222222222222222222222222222";
+const account = "0x3333333333333333333333333333333333333333";
+
+const abi = parseAbi([
+  "function approve(address spender, uint256 amount)",
+  "function setApprovalForAll(address operator, bool approved)",
+  "function approve(address token, address spender, uint160 amount, uint48 expiration)",
+]);
+
+const sendTransaction = (data: string) => ({
+  method: "eth_sendTransaction",
+  params: [{ from: account, to: token, data }],
+});
+
+const signTypedData = (typedData: object) => ({
+  method: "eth_signTypedData_v4",
+  params: [account, JSON.stringify(typedData)],
+});
+
+describe("getRiskWarnings", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("warns about unlimited ERC-20 approvals only", () => {
+    const unlimited = encodeFunctionData({
+      abi,
+      functionName: "approve",
+      args: [spender, maxUint256],
+    });
+    const limited = encodeFunctionData({
+      abi,
+      functionName: "approve",
+      args: [spender, BigInt(100)],
+    });
+
+    expect(getRiskWarnings(sendTransaction(unlimited))).toMatchObject([
+      { kind: "approve", severity: "high", spender, token, unlimited: true },
+    ]);
+    expect(getRiskWarnings(sendTransaction(limited))).toEqual([]);
+  });
+
+  it("warns about setApprovalForAll unless it revokes", () => {
+    const approve = encodeFunctionData({
+      abi,
+      functionName: "setApprovalForAll",
+      args: [spender, true],
+    });
+    const revoke = encodeFunctionData({
+      abi,
+      functionName: "setApprovalForAll",
+      args: [spender, false],
+    });
+
+    expect(getRiskWarnings(sendTransaction(approve))).toMatchObject([
+      { kind: "setApprovalForAll", spender, token },
+    ]);
+    expect(getRiskWarnings(sendTransaction(revoke))).toEqual([]);
+  });
+
+  it("checks every call of a wallet_sendCalls batch", () => {
+    const data = encodeFunctionData({
+      abi,
+      functionName: "approve",
+      args: [spender, maxUint256],
+    });
+
+    const warnings = getRiskWarnings({
+      method: "wallet_sendCalls",
+      params: [
+        { calls: [{ to: token, data }, { to: spender }, { to: token, data }] },
+      ],
+    });
+
+    expect(warnings).toHaveLength(2);
+  });
+
+  it("treats a Permit2 expiration of 0 as expiring now", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const now = Math.floor(Date.now() / 1000);
+
+    const data = encodeFunctionData({
+      abi,
+      functionName: "approve",
+      args: [token, spender, BigInt(100), 0],
+    });
+    expect(getRiskWarnings(sendTransaction(data))).toMatchObject([
+      { kind: "permit2", severity: "medium", expiry: now },
+    ]);
+
+    const warnings = getRiskWarnings(
+      signTypedData({
+        primaryType: "PermitSingle",
+        domain: { name: "Permit2" },
+        message: {
+          details: { token, amount: "100", expiration: "0", nonce: "0" },
+          spender,
+          sigDeadline: "0",
+        },
+      })
+    );
+    expect(warnings).toMatchObject([{ kind: "permit2", expiry: now }]);
+  });
+
+  it("reports a far future Permit2 expiration as never expiring", () => {
+    const warnings = getRiskWarnings(
+      signTypedData({
+        primaryType: "PermitBatch",
+        domain: { name: "Permit2" },
+        message: {
+          details: [
+            {
+              token,
+              amount: maxUint256.toString(),
+              expiration: "281474976710655",
+              nonce: "0",
+            },
+            {
+              token: spender,
+              amount: "1",
+              expiration: "1700000000",
+              nonce: "0",
+            },
+          ],
+          spender,
+          sigDeadline: "0",
+        },
+      })
+    );
+
+    expect(warnings).toMatchObject([
+      { severity: "high", unlimited: true, expiry: 0 },
+      { severity: "medium", unlimited: false, expiry: 1700000000 },
+    ]);
+  });
+
+  it("flags EIP-2612 permits by amount", () => {
+    const warnings = getRiskWarnings(
+      signTypedData({
+        primaryType: "Permit",
+        domain: { name: "Token", verifyingContract: token },
+        message: {
+          owner: account,
+          spender,
+          value: maxUint256.toString(),
+          nonce: "0",
+          deadline: "1700000000",
+        },
+      })
+    );
+
+    expect(warnings).toMatchObject([
+      {
+        kind: "permit",
+        severity: "high",
+        spender,
+        token,
+        unlimited: true,
+        expiry: 1700000000,
+      },
+    ]);
+  });
+
+  it("flags Seaport orders paying nothing to the offerer", () => {
+    const warnings = getRiskWarnings(
+      signTypedData({
+        primaryType: "OrderComponents",
+        domain: { name: "Seaport" },
+        message: {
+          offerer: account,
+          offer: [
+            {
+              itemType: "2",
+              token,
+              identifierOrCriteria: "42",
+              startAmount: "1",
+            },
+          ],
+          consideration: [{ itemType: "0", recipient: spender }],
+          endTime: "1700000000",
+        },
+      })
+    );
+
+    expect(warnings).toMatchObject([
+      {
+        kind: "seaport",
+        title: "Seaport order offers ERC721",
+        tokenId: BigInt(42),
+        details: expect.stringContaining(
+          "Nothing in this order is paid to you"
+        ),
+      },
+    ]);
+  });
+});
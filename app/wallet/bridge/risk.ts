@@ -0,0 +1,296 @@
+import {
+  Address,
+  Hex,
+  decodeFunctionData,
+  isAddress,
+  isAddressEqual,
+  maxUint160,
+  parseAbi,
+} from "viem";
+import { formatTypedData } from "./utils";
+
+export type RiskWarning = {
+  kind: "permit" | "permit2" | "seaport" | "approve" | "setApprovalForAll";
+  severity: "high" | "medium";
+  title: string;
+  /** Account or contract that can move the assets */
+  spender?: Address;
+  token?: Address;
+  amount?: bigint;
+  tokenId?: bigint;
+  unlimited?: boolean;
+  /**
+   * Unix timestamp in seconds, 0 when it never expires. A Permit2 allowance
+   * expiring at 0 expires in the block it is set in.
+   */
+  expiry?: number;
+  details?: string;
+};
+
+// Max uint256 and Permit2's max uint160 are both treated as unlimited
+const isUnlimitedAmount = (amount: bigint) => amount >= maxUint160;
+
+const toBigInt = (value: unknown) => {
+  try {
+    return BigInt(value as string);
+  } catch {
+    return undefined;
+  }
+};
+
+const toAddress = (value: unknown) =>
+  typeof value === "string" && isAddress(value)
+    ? (value as Address)
+    : undefined;
+
+const toExpiry = (value: unknown) => {
+  const expiry = toBigInt(value);
+  if (expiry === undefined) return undefined;
+  // Far future deadlines don't expire in practice, and can't be shown as a
+  // date past the last one JS Dates support (Permit2's max uint48)
+  return expiry > BigInt(8_640_000_000_000) ? 0 : Number(expiry);
+};
+
+// Permit2 stores an expiration of 0 as the current block timestamp
+const toPermit2Expiration = (value: unknown) => {
+  const expiration = toBigInt(value);
+  if (expiration === BigInt(0)) return Math.floor(Date.now() / 1000);
+  return toExpiry(value);
+};
+
+// Typed data messages are untrusted, any field can be missing
+type Permit2Details = {
+  token?: unknown;
+  amount?: unknown;
+  expiration?: unknown;
+};
+type Permit2TokenPermissions = { token?: unknown; amount?: unknown };
+type SeaportItem = {
+  itemType?: unknown;
+  token?: unknown;
+  startAmount?: unknown;
+  identifierOrCriteria?: unknown;
+  recipient?: unknown;
+};
+type Call = { to?: string; data?: Hex };
+
+const toList = <T>(value: T | T[] | undefined): T[] =>
+  (Array.isArray(value) ? value : [value]).filter((x): x is T => !!x);
+
+const approvalsAbi = parseAbi([
+  "function approve(address spender, uint256 amount)",
+  "function setApprovalForAll(address operator, bool approved)",
+  "function approve(address token, address spender, uint160 amount, uint48 expiration)",
+]);
+
+// ERC-20 approve with an unlimited amount, setApprovalForAll, and Permit2's
+// own approve
+const getCalldataWarnings = (to: string | undefined, data?: Hex) => {
+  if (!data) return [];
+
+  let decoded;
+  try {
+    decoded = decodeFunctionData({ abi: approvalsAbi, data });
+  } catch {
+    return [];
+  }
+  const warnings: RiskWarning[] = [];
+
+  if (decoded.functionName === "setApprovalForAll") {
+    const [operator, approved] = decoded.args;
+    if (!approved) return [];
+    warnings.push({
+      kind: "setApprovalForAll",
+      severity: "high",
+      title: "Approval for all tokens of the collection",
+      spender: operator,
+      token: toAddress(to),
+      unlimited: true,
+      details:
+        "The operator can transfer every NFT you own in this collection, now and in the future",
+    });
+  } else if (decoded.args.length === 2) {
+    const [spender, amount] = decoded.args;
+    if (isUnlimitedAmount(amount)) {
+      warnings.push({
+        kind: "approve",
+        severity: "high",
+        title: "Unlimited token approval",
+        spender,
+        token: toAddress(to),
+        amount,
+        unlimited: true,
+        details: "The spender can transfer all of this token you hold",
+      });
+    }
+  } else {
+    const [token, spender, amount, expiration] = decoded.args;
+    warnings.push({
+      kind: "permit2",
+      severity: isUnlimitedAmount(amount) ? "high" : "medium",
+      title: "Permit2 allowance",
+      token,
+      spender,
+      amount,
+      unlimited: isUnlimitedAmount(amount),
+      expiry: toPermit2Expiration(expiration),
+    });
+  }
+
+  return warnings;
+};
+
+const permit2PrimaryTypes = [
+  "PermitSingle",
+  "PermitBatch",
+  "PermitTransferFrom",
+  "PermitBatchTransferFrom",
+  "PermitWitnessTransferFrom",
+  "PermitBatchWitnessTransferFrom",
+];
+
+const getPermit2Warnings = (primaryType: string, message: any) => {
+  const spender = toAddress(message.spender);
+
+  switch (primaryType) {
+    case "PermitSingle":
+    case "PermitBatch": {
+      const details = toList<Permit2Details>(message.details);
+      return details.map((detail): RiskWarning => {
+        const amount = toBigInt(detail.amount) ?? BigInt(0);
+        return {
+          kind: "permit2",
+          severity: isUnlimitedAmount(amount) ? "high" : "medium",
+          title: `Permit2 allowance (${primaryType})`,
+          spender,
+          token: toAddress(detail.token),
+          amount,
+          unlimited: isUnlimitedAmount(amount),
+          expiry: toPermit2Expiration(detail.expiration),
+        };
+      });
+    }
+    // Signature based transfers, optionally with a witness
+    default: {
+      const permitted = toList<Permit2TokenPermissions>(message.permitted);
+      return permitted.map((item): RiskWarning => {
+        const amount = toBigInt(item.amount) ?? BigInt(0);
+        return {
+          kind: "permit2",
+          severity: "high",
+          title: `Permit2 transfer (${primaryType})`,
+          spender,
+          token: toAddress(item.token),
+          amount,
+          unlimited: isUnlimitedAmount(amount),
+          expiry: toExpiry(message.deadline),
+          details:
+            "The spender can transfer these tokens without another signature",
+        };
+      });
+    }
+  }
+};
+
+const seaportItemTypes = ["ETH", "ERC20", "ERC721", "ERC1155"];
+
+// Every item the offerer gives away in a Seaport order
+const getSeaportWarnings = (message: any) => {
+  const offerer = toAddress(message.offerer);
+  const consideration = toList<SeaportItem>(message.consideration);
+  const otherRecipients = consideration.filter((item) => {
+    const recipient = toAddress(item.recipient);
+    return !offerer || !recipient || !isAddressEqual(recipient, offerer);
+  });
+  const listsForNothing =
+    consideration.length > 0 && otherRecipients.length === consideration.length;
+
+  return toList<SeaportItem>(message.offer).map(
+    (item): RiskWarning => ({
+      kind: "seaport",
+      severity: "high",
+      title: `Seaport order offers ${
+        seaportItemTypes[Number(item.itemType)] ?? "an asset"
+      }`,
+      token: toAddress(item.token),
+      amount: toBigInt(item.startAmount),
+      tokenId:
+        Number(item.itemType) >= 2
+          ? toBigInt(item.identifierOrCriteria)
+          : undefined,
+      expiry: toExpiry(message.endTime),
+      details: listsForNothing
+        ? "Nothing in this order is paid to you, anyone can fill it to take the offered assets"
+        : `${otherRecipients.length} of ${consideration.length} consideration items go to other recipients`,
+    })
+  );
+};
+
+const getTypedDataWarnings = (typedData: any): RiskWarning[] => {
+  const formatted = formatTypedData(typedData);
+  if (!formatted?.message) return [];
+
+  const { domain, primaryType, message } = formatted;
+
+  // EIP-2612 and DAI style permits
+  if (primaryType === "Permit" && message.spender) {
+    const amount =
+      message.value !== undefined ? toBigInt(message.value) : undefined;
+    const unlimited =
+      message.allowed === true ||
+      (amount !== undefined && isUnlimitedAmount(amount));
+    return [
+      {
+        kind: "permit",
+        severity: unlimited ? "high" : "medium",
+        title: unlimited ? "Unlimited token permit" : "Token permit",
+        spender: toAddress(message.spender),
+        token: toAddress(domain?.verifyingContract),
+        amount,
+        unlimited,
+        expiry: toExpiry(message.deadline ?? message.expiry),
+        details:
+          "The spender can transfer your tokens once this is signed, without a transaction",
+      },
+    ];
+  }
+
+  if (permit2PrimaryTypes.includes(primaryType)) {
+    return getPermit2Warnings(primaryType, message);
+  }
+
+  if (domain?.name === "Seaport" || primaryType === "OrderComponents") {
+    return getSeaportWarnings(message);
+  }
+
+  return [];
+};
+
+// Rules for requests that can hand over the account's assets
+export const getRiskWarnings = (request: {
+  method: string;
+  params: any;
+}): RiskWarning[] => {
+  const { method, params } = request;
+
+  try {
+    switch (method) {
+      case "eth_sendTransaction":
+      case "eth_signTransaction":
+        return getCalldataWarnings(params[0]?.to, params[0]?.data);
+      case "wallet_sendCalls":
+        return toList<Call>(params[0]?.calls).flatMap((call) =>
+          getCalldataWarnings(call.to, call.data)
+        );
+      case "eth_signTypedData":
+      case "eth_signTypedData_v3":
+      case "eth_signTypedData_v4":
+        return getTypedDataWarnings(params[1]);
+      default:
+        return [];
+    }
+  } catch (error) {
+    console.error("Error checking request risks:", error);
+    return [];
+  }
+};
@@ -0,0 +1,451 @@
+import {
+  Address,
+  DecodeEventLogReturnType,
+  Hex,
+  Log,
+  PublicClient,
+  createPublicClient,
+  decodeEventLog,
+  erc20Abi,
+  http,
+  isAddressEqual,
+  parseAbi,
+} from "viem";
+import { simulateBlocks } from "viem/actions";
+import { chainIdToChain } from "@/data/common";
+
+export type SimulationCall = { to: Address; data?: Hex; value?: bigint };
+
+// Calls of a transaction or EIP-5792 batch request, in the order they run
+export const getSimulationCalls = (request: {
+  method: string;
+  params: any;
+}): SimulationCall[] => {
+  const transactions: { to: Address; data?: Hex; value?: string }[] =
+    request.method === "wallet_sendCalls"
+      ? request.params[0]?.calls ?? []
+      : request.params[0]
+      ? [request.params[0]]
+      : [];
+
+  return transactions.map((transaction) => ({
+    to: transaction.to,
+    data: transaction.data,
+    value: BigInt(transaction.value ?? 0),
+  }));
+};
+
+export type AssetChange = {
+  standard: "native" | "erc20" | "erc721" | "erc1155";
+  /** Token contract, unset for the native currency */
+  token?: Address;
+  tokenId?: bigint;
+  /** Signed change of the account's balance */
+  amount: bigint;
+  symbol?: string;
+  decimals?: number;
+};
+
+export type ApprovalChange = {
+  standard: "erc20" | "erc721" | "erc1155";
+  token: Address;
+  spender: Address;
+  /** ERC-20 allowance */
+  amount?: bigint;
+  tokenId?: bigint;
+  /** setApprovalForAll, false when revoked */
+  approvedForAll?: boolean;
+  symbol?: string;
+  decimals?: number;
+};
+
+export type SimulationResult = {
+  method: "eth_simulateV1" | "debug_traceCall";
+  success: boolean;
+  error?: string;
+  gasUsed?: bigint;
+  assetChanges: AssetChange[];
+  approvals: ApprovalChange[];
+};
+
+// eth_simulateV1 reports native transfers as ERC-20 logs from this address
+const NATIVE_TRANSFER_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+const erc20EventsAbi = parseAbi([
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Approval(address indexed owner, address indexed spender, uint256 value)",
+]);
+
+const erc721EventsAbi = parseAbi([
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)",
+  "event ApprovalForAll(address indexed owner, address indexed operator, bool approved)",
+]);
+
+const erc1155EventsAbi = parseAbi([
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+]);
+
+type RawLog = Pick<Log, "address" | "data" | "topics">;
+
+type AssetEvent =
+  | ({ standard: "erc20" } & DecodeEventLogReturnType<typeof erc20EventsAbi>)
+  | ({ standard: "erc721" } & DecodeEventLogReturnType<typeof erc721EventsAbi>)
+  | ({ standard: "erc1155" } & DecodeEventLogReturnType<
+      typeof erc1155EventsAbi
+    >);
+
+// ERC-20 and ERC-721 share event signatures, the indexed token id tells
+// them apart. ApprovalForAll is the same event in ERC-721 and ERC-1155.
+const decodeAssetLog = ({ data, topics }: RawLog): AssetEvent | undefined => {
+  if (topics.length === 4) {
+    try {
+      return {
+        standard: "erc721",
+        ...decodeEventLog({ abi: erc721EventsAbi, data, topics }),
+      };
+    } catch {}
+    try {
+      return {
+        standard: "erc1155",
+        ...decodeEventLog({ abi: erc1155EventsAbi, data, topics }),
+      };
+    } catch {}
+    return;
+  }
+  try {
+    return {
+      standard: "erc20",
+      ...decodeEventLog({ abi: erc20EventsAbi, data, topics }),
+    };
+  } catch {}
+  try {
+    return {
+      standard: "erc721",
+      ...decodeEventLog({ abi: erc721EventsAbi, data, topics }),
+    };
+  } catch {}
+};
+
+const toAssetChanges = (logs: RawLog[], account: Address) => {
+  const balances = new Map<string, AssetChange>();
+  const approvals: ApprovalChange[] = [];
+
+  const addBalance = (
+    change: Omit<AssetChange, "amount">,
+    from: Address,
+    to: Address,
+    amount: bigint
+  ) => {
+    const delta =
+      (isAddressEqual(to, account) ? amount : BigInt(0)) -
+      (isAddressEqual(from, account) ? amount : BigInt(0));
+    if (delta === BigInt(0)) return;
+
+    const key = `${change.standard}:${change.token ?? ""}:${
+      change.tokenId ?? ""
+    }`;
+    const existing = balances.get(key);
+    balances.set(key, {
+      ...change,
+      amount: (existing?.amount ?? BigInt(0)) + delta,
+    });
+  };
+
+  for (const log of logs) {
+    const event = decodeAssetLog(log);
+    if (!event) continue;
+
+    const isNative = isAddressEqual(log.address, NATIVE_TRANSFER_ADDRESS);
+
+    switch (event.eventName) {
+      case "Transfer":
+        if (event.standard === "erc721") {
+          addBalance(
+            {
+              standard: "erc721",
+              token: log.address,
+              tokenId: event.args.tokenId,
+            },
+            event.args.from,
+            event.args.to,
+            BigInt(1)
+          );
+        } else {
+          addBalance(
+            isNative
+              ? { standard: "native" }
+              : { standard: "erc20", token: log.address },
+            event.args.from,
+            event.args.to,
+            event.args.value
+          );
+        }
+        break;
+      case "TransferSingle":
+        addBalance(
+          { standard: "erc1155", token: log.address, tokenId: event.args.id },
+          event.args.from,
+          event.args.to,
+          event.args.value
+        );
+        break;
+      case "TransferBatch": {
+        const { from, to, ids, values } = event.args;
+        ids.forEach((id, i) =>
+          addBalance(
+            { standard: "erc1155", token: log.address, tokenId: id },
+            from,
+            to,
+            values[i]
+          )
+        );
+        break;
+      }
+      case "Approval":
+        if (!isAddressEqual(event.args.owner, account)) break;
+        approvals.push(
+          event.standard === "erc721"
+            ? {
+                standard: "erc721",
+                token: log.address,
+                spender: event.args.approved,
+                tokenId: event.args.tokenId,
+              }
+            : {
+                standard: "erc20",
+                token: log.address,
+                spender: event.args.spender,
+                amount: event.args.value,
+              }
+        );
+        break;
+      case "ApprovalForAll":
+        if (!isAddressEqual(event.args.owner, account)) break;
+        // Told apart from ERC-1155 with ERC-165 in withApprovalStandards
+        approvals.push({
+          standard: "erc721",
+          token: log.address,
+          spender: event.args.operator,
+          approvedForAll: event.args.approved,
+        });
+        break;
+    }
+  }
+
+  return {
+    assetChanges: Array.from(balances.values()).filter(
+      (change) => change.amount !== BigInt(0)
+    ),
+    approvals,
+  };
+};
+
+// Token symbols and decimals, best effort
+const withTokenMetadata = async <T extends { token?: Address }>(
+  client: PublicClient,
+  items: T[]
+) =>
+  Promise.all(
+    items.map(async (item) => {
+      if (!item.token) return item;
+
+      const [symbol, decimals] = await Promise.all([
+        client
+          .readContract({
+            address: item.token,
+            abi: erc20Abi,
+            functionName: "symbol",
+          })
+          .catch(() => undefined),
+        client
+          .readContract({
+            address: item.token,
+            abi: erc20Abi,
+            functionName: "decimals",
+          })
+          .catch(() => undefined),
+      ]);
+      return { ...item, symbol, decimals };
+    })
+  );
+
+const ERC1155_INTERFACE_ID = "0xd9b67a26";
+
+// ApprovalForAll doesn't tell ERC-721 and ERC-1155 apart, ask the contract
+const withApprovalStandards = async (
+  client: PublicClient,
+  approvals: ApprovalChange[]
+) =>
+  Promise.all(
+    approvals.map(async (approval) => {
+      if (approval.approvedForAll === undefined) return approval;
+
+      const isErc1155 = await client
+        .readContract({
+          address: approval.token,
+          abi: parseAbi([
+            "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+          ]),
+          functionName: "supportsInterface",
+          args: [ERC1155_INTERFACE_ID],
+        })
+        .catch(() => false);
+      return {
+        ...approval,
+        standard: isErc1155 ? ("erc1155" as const) : approval.standard,
+      };
+    })
+  );
+
+const simulateWithSimulateV1 = async (
+  client: PublicClient,
+  account: Address,
+  calls: SimulationCall[]
+) => {
+  const [block] = await simulateBlocks(client, {
+    blocks: [{ calls: calls.map((call) => ({ ...call, account })) }],
+    traceTransfers: true,
+  });
+
+  const failed = block.calls.find((call) => call.status === "failure");
+  return {
+    success: !failed,
+    error: failed?.error?.message,
+    gasUsed: block.gasUsed,
+    logs: block.calls.flatMap((call) => call.logs ?? []),
+  };
+};
+
+type CallFrame = {
+  from: Address;
+  to?: Address;
+  type: string;
+  value?: Hex;
+  gasUsed?: Hex;
+  error?: string;
+  revertReason?: string;
+  logs?: RawLog[];
+  calls?: CallFrame[];
+};
+
+// Native transfers become Transfer logs of the placeholder address, the same
+// as eth_simulateV1 reports them. Reverted frames don't change any state.
+const collectCallFrameLogs = (frame: CallFrame): RawLog[] => {
+  if (frame.error) return [];
+
+  const logs: RawLog[] = [];
+  if (
+    frame.to &&
+    frame.value &&
+    BigInt(frame.value) > BigInt(0) &&
+    frame.type !== "DELEGATECALL"
+  ) {
+    logs.push({
+      address: NATIVE_TRANSFER_ADDRESS,
+      topics: [
+        "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef",
+        `0x${frame.from.slice(2).padStart(64, "0")}`,
+        `0x${frame.to.slice(2).padStart(64, "0")}`,
+      ],
+      data: `0x${BigInt(frame.value).toString(16).padStart(64, "0")}`,
+    });
+  }
+  return logs.concat(
+    frame.logs ?? [],
+    (frame.calls ?? []).flatMap(collectCallFrameLogs)
+  );
+};
+
+const simulateWithTraceCall = async (
+  client: PublicClient,
+  account: Address,
+  calls: SimulationCall[]
+) => {
+  if (calls.length !== 1) {
+    throw new Error("debug_traceCall can only simulate a single call");
+  }
+  const [call] = calls;
+
+  const frame = await client.request<{
+    Parameters: [
+      { from: Address; to: Address; data?: Hex; value?: Hex },
+      "latest",
+      { tracer: "callTracer"; tracerConfig: { withLog: boolean } }
+    ];
+    ReturnType: CallFrame;
+  }>({
+    method: "debug_traceCall",
+    params: [
+      {
+        from: account,
+        to: call.to,
+        data: call.data,
+        value: call.value ? `0x${call.value.toString(16)}` : undefined,
+      },
+      "latest",
+      { tracer: "callTracer", tracerConfig: { withLog: true } },
+    ],
+  });
+
+  return {
+    success: !frame.error,
+    error: frame.error ? frame.revertReason ?? frame.error : undefined,
+    gasUsed: frame.gasUsed ? BigInt(frame.gasUsed) : undefined,
+    logs: collectCallFrameLogs(frame),
+  };
+};
+
+// Simulates the calls from the account against the chain's RPC, or an Anvil
+// fork when given, with eth_simulateV1 and debug_traceCall as a fallback
+export const simulateAssetChanges = async ({
+  chainId,
+  account,
+  calls,
+  rpcUrl,
+}: {
+  chainId: number;
+  account: Address;
+  calls: SimulationCall[];
+  rpcUrl?: string;
+}): Promise<SimulationResult> => {
+  const client = createPublicClient({
+    chain: chainIdToChain[chainId],
+    transport: http(rpcUrl || undefined),
+  });
+
+  let method: SimulationResult["method"] = "eth_simulateV1";
+  let simulation;
+  try {
+    simulation = await simulateWithSimulateV1(client, account, calls);
+  } catch (simulateError) {
+    console.warn(
+      "eth_simulateV1 failed, trying debug_traceCall",
+      simulateError
+    );
+    method = "debug_traceCall";
+    try {
+      simulation = await simulateWithTraceCall(client, account, calls);
+    } catch (traceError) {
+      console.error("debug_traceCall failed", traceError);
+      throw new Error(
+        "The RPC supports neither eth_simulateV1 nor debug_traceCall, try an Anvil fork URL"
+      );
+    }
+  }
+
+  const { assetChanges, approvals } = toAssetChanges(simulation.logs, account);
+
+  return {
+    method,
+    success: simulation.success,
+    error: simulation.error,
+    gasUsed: simulation.gasUsed,
+    assetChanges: await withTokenMetadata(client, assetChanges),
+    approvals: await withTokenMetadata(
+      client,
+      await withApprovalStandards(client, approvals)
+    ),
+  };
+};
@@ -1,8 +1,19 @@
 import { IWalletKit } from "@reown/walletkit";
 
+// WalletConnect Verify API result for the dapp's domain
+export interface VerifyContext {
+  verified: {
+    origin: string;
+    validation: "VALID" | "INVALID" | "UNKNOWN";
+    verifyUrl: string;
+    isScam?: boolean;
+  };
+}
+
 // Types for session requests
 export interface SessionProposal {
   id: number;
+  verifyContext?: VerifyContext;
   params: {
     id: number;
     pairingTopic: string;
@@ -40,6 +51,8 @@ export interface SessionProposal {
 export interface SessionRequest {
   id: number;
   topic: string;
+  /** Set by the bridge when the request arrives */
+  receivedAt?: number;
   params: {
     request: {
       method: string;
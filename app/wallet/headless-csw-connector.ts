@@ -1,40 +1,312 @@
 import {
+  BaseError,
+  ContractFunctionArgs,
+  ContractFunctionRevertedError,
   Hex,
+  PublicClient,
   SwitchChainError,
+  TransactionReceipt,
+  UnsupportedProviderMethodError,
   WalletClient,
+  bytesToHex,
+  concat,
   createPublicClient,
   createWalletClient,
+  encodeAbiParameters,
+  encodeFunctionData,
   fromHex,
   getAddress,
+  hashMessage,
+  hashTypedData,
+  hexToBytes,
   http,
+  isAddressEqual,
   numberToHex,
+  pad,
+  parseAbi,
+  parseErc6492Signature,
+  parseEventLogs,
+  serializeErc6492Signature,
+  slice,
+  zeroAddress,
+  zeroHash,
 } from "viem";
 import {
+  PackedUserOperation,
+  ToCoinbaseSmartAccountReturnType,
+  UserOperation,
   createBundlerClient,
+  createPaymasterClient,
   entryPoint06Abi,
   entryPoint06Address,
-  toCoinbaseSmartAccount,
+  entryPoint07Abi,
+  entryPoint07Address,
+  toPackedUserOperation,
+  toWebAuthnAccount,
 } from "viem/account-abstraction";
 import { privateKeyToAccount } from "viem/accounts";
-import { ChainNotConfiguredError, createConnector } from "wagmi";
+import { verifyHash } from "viem/actions";
+import { ChainNotConfiguredError, Connector, createConnector } from "wagmi";
+import {
+  REPLAYABLE_NONCE_KEY,
+  coinbaseSmartWalletReplayAbi,
+  getReplayableNonce,
+} from "./owners/replay";
+import { findOwner, readOwners } from "./owners/utils";
+import { PasskeyCredential } from "./passkey";
+import {
+  EntryPointVersion,
+  SmartAccountImplementationType,
+  smartAccountImplementations,
+  toHeadlessSmartAccount,
+} from "./smart-accounts";
 
 headlessCSWConnector.type = "headlessCSWConnector" as const;
 
+export type UserOperationGasMultipliers = {
+  callGasLimit: number;
+  verificationGasLimit: number;
+  preVerificationGas: number;
+};
+
+// Safety margins applied on top of the estimated gas limits
+export const defaultGasMultipliers: UserOperationGasMultipliers = {
+  callGasLimit: 1.2,
+  verificationGasLimit: 1.5,
+  preVerificationGas: 1.1,
+};
+
+export type UserOperationGasEstimate = {
+  callGasLimit: bigint;
+  verificationGasLimit: bigint;
+  preVerificationGas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  /** EntryPoint v0.7 paymaster gas limits */
+  paymasterVerificationGasLimit?: bigint;
+  paymasterPostOpGasLimit?: bigint;
+  /** Upper bound of the fee in wei */
+  maxCost: bigint;
+  /**
+   * The smart wallet pays the bundler unless a paymaster sponsors the
+   * operation, the owner EOA pays when self-bundling
+   */
+  payer: "smartWallet" | "paymaster" | "owner";
+  /** Factory call deploying the wallet with this operation, "0x" if deployed */
+  initCode: Hex;
+};
+
+/** ERC-7677 paymaster web service, as in the `paymasterService` capability */
+export type PaymasterService = {
+  url: string;
+  context?: Record<string, unknown>;
+};
+
+type Call = { to: Hex; data?: Hex; value?: bigint };
+
+export type UserOperationV06 = ContractFunctionArgs<
+  typeof entryPoint06Abi,
+  "nonpayable",
+  "handleOps"
+>[0][number];
+
+/** Methods the headless connector adds on top of a wagmi connector */
+export type HeadlessCSWConnector = Connector & {
+  getOwnerBytes: () => Promise<Hex | undefined>;
+  estimateUserOperation: (
+    tx: Call,
+    paymasterService?: PaymasterService
+  ) => Promise<UserOperationGasEstimate>;
+  signReplayableUserOperation: (ownerCalls: Hex[]) => Promise<UserOperationV06>;
+  replayUserOperation: (args: {
+    chainId: number;
+    userOp: UserOperationV06;
+  }) => Promise<{ transactionHash: Hex; success: boolean }>;
+};
+
+export const isHeadlessCSWConnector = (
+  connector?: Connector
+): connector is HeadlessCSWConnector =>
+  connector?.type === headlessCSWConnector.type;
+
+const applyMultiplier = (value: bigint, multiplier: number) =>
+  (value * BigInt(Math.round(multiplier * 100))) / BigInt(100);
+
+// Calldata cost of submitting the user operation on its own in a handleOps bundle
+const getPreVerificationGas = (
+  userOp: UserOperationV06 | PackedUserOperation
+) => {
+  const data =
+    "accountGasLimits" in userOp
+      ? encodeFunctionData({
+          abi: entryPoint07Abi,
+          functionName: "handleOps",
+          args: [[userOp], zeroAddress],
+        })
+      : encodeFunctionData({
+          abi: entryPoint06Abi,
+          functionName: "handleOps",
+          args: [[userOp], zeroAddress],
+        });
+  const calldataCost = hexToBytes(data).reduce(
+    (cost, byte) => cost + (byte === 0 ? 4 : 16),
+    0
+  );
+  // 21000 base transaction cost + 18300 EntryPoint overhead per user op
+  return BigInt(calldataCost + 21_000 + 18_300);
+};
+
+// Verification gas used by the user operation, from the ExecutionResult of
+// simulateHandleOp. preVerificationGas must be 0 for preOpGas to only count it.
+const simulateVerificationGas = async (
+  client: PublicClient,
+  userOp: UserOperationV06
+) => {
+  try {
+    await client.simulateContract({
+      abi: entryPoint06Abi,
+      address: entryPoint06Address,
+      functionName: "simulateHandleOp",
+      args: [userOp, zeroAddress, "0x"],
+    });
+  } catch (error) {
+    const revertError = (error as BaseError).walk(
+      (err) => err instanceof ContractFunctionRevertedError
+    );
+    if (
+      revertError instanceof ContractFunctionRevertedError &&
+      revertError.data?.errorName === "ExecutionResult"
+    ) {
+      const [preOpGas] = revertError.data.args as [bigint];
+      return preOpGas;
+    }
+    throw error;
+  }
+
+  throw new Error("simulateHandleOp did not return an ExecutionResult");
+};
+
+const validateUserOp07Abi = parseAbi([
+  "struct PackedUserOperation { address sender; uint256 nonce; bytes initCode; bytes callData; bytes32 accountGasLimits; uint256 preVerificationGas; bytes32 gasFees; bytes paymasterAndData; bytes signature; }",
+  "function validateUserOp(PackedUserOperation userOp, bytes32 userOpHash, uint256 missingAccountFunds) returns (uint256)",
+]);
+
+// EntryPoint v0.7 has no simulateHandleOp, so the verification gas is the
+// account's validateUserOp called by the EntryPoint
+const estimateVerificationGas07 = (
+  client: PublicClient,
+  userOp: PackedUserOperation
+) =>
+  client.estimateGas({
+    account: entryPoint07Address,
+    to: userOp.sender,
+    data: encodeFunctionData({
+      abi: validateUserOp07Abi,
+      functionName: "validateUserOp",
+      args: [userOp, zeroHash, BigInt(0)],
+    }),
+  });
+
+// Coinbase Smart Wallet signatures are wrapped with the index of the signer
+const wrapSignature = (ownerIndex: number, signatureData: Hex) =>
+  encodeAbiParameters(
+    [
+      {
+        type: "tuple",
+        components: [
+          { name: "ownerIndex", type: "uint8" },
+          { name: "signatureData", type: "bytes" },
+        ],
+      },
+    ],
+    [{ ownerIndex, signatureData }]
+  );
+
 export function headlessCSWConnector({
   ownerPrivateKey,
+  passkeyCredential,
   ownerIndex,
   address,
+  bundlerUrls = {},
+  paymasterUrls = {},
+  gasMultipliers = defaultGasMultipliers,
+  initialOwners,
+  implementation = "coinbaseSmartWallet",
+  entryPointVersion = "0.6",
 }: {
-  ownerPrivateKey: Hex;
-  ownerIndex: number;
+  ownerPrivateKey?: Hex;
+  /**
+   * Passkey owning the Coinbase Smart Wallet, used instead of
+   * `ownerPrivateKey`. User operations then need a bundler, as a passkey
+   * can't send transactions.
+   */
+  passkeyCredential?: PasskeyCredential;
+  /**
+   * Index of the owner key in the Coinbase Smart Wallet's owners, detected
+   * when omitted
+   */
+  ownerIndex?: number;
   address: Hex;
+  /**
+   * ERC-4337 bundler RPC URL per chain id. User operations on chains without
+   * a bundler fall back to the owner EOA calling `handleOps` directly.
+   */
+  bundlerUrls?: Record<number, string>;
+  /**
+   * ERC-7677 paymaster URL per chain id, sponsoring the user operations sent
+   * through the bundler
+   */
+  paymasterUrls?: Record<number, string>;
+  gasMultipliers?: UserOperationGasMultipliers;
+  /**
+   * Owners (as `bytes`) the smart wallet was created with, used to deploy it
+   * on chains where it doesn't exist yet. Looked up from a chain where the
+   * wallet is deployed when omitted.
+   */
+  initialOwners?: Hex[];
+  /** Smart account the owner key controls */
+  implementation?: SmartAccountImplementationType;
+  entryPointVersion?: EntryPointVersion;
 }) {
+  // Owner index lookup, counterfactual owners and cross-chain replays are
+  // specific to the Coinbase Smart Wallet
+  const isCoinbaseSmartWallet = implementation === "coinbaseSmartWallet";
+
+  if (!ownerPrivateKey && !passkeyCredential) {
+    throw new Error("An owner private key or passkey is required");
+  }
+  // Owner bytes of the signing key. A passkey's public key is only known once
+  // one of the recovered candidates is found in the wallet's owners.
+  const ownerCandidates: Hex[] = ownerPrivateKey
+    ? [pad(privateKeyToAccount(ownerPrivateKey).address)]
+    : passkeyCredential!.publicKeys;
+  // The owner EOA, which can also submit handleOps itself
+  const getOwnerEOA = (action: string) => {
+    if (!ownerPrivateKey) {
+      throw new Error(`${action} requires an owner private key`);
+    }
+    return privateKeyToAccount(ownerPrivateKey);
+  };
+
   let connected = true;
+  let deploymentOwners = initialOwners;
+  let resolvedOwnerIndex = ownerIndex;
+  let resolvedOwnerBytes =
+    ownerCandidates.length === 1 ? ownerCandidates[0] : undefined;
   let walletClient: WalletClient;
+  let estimateUserOperation: (
+    calls: Call[],
+    paymasterService?: PaymasterService
+  ) => Promise<UserOperationGasEstimate>;
+  // EIP-5792 batches sent through wallet_sendCalls, by call bundle id
+  const callsStatuses = new Map<
+    string,
+    { chainId: number; status: number; receipt?: TransactionReceipt }
+  >();
 
   return createConnector<WalletClient>((config) => ({
     id: "headless-csw",
-    name: "Headless Coinbase Smart Wallet",
+    name: `Headless ${smartAccountImplementations[implementation].name}`,
     type: headlessCSWConnector.type,
 
     async setup() {
@@ -112,9 +384,183 @@ export function headlessCSWConnector({
       config.emitter.emit("disconnect");
       connected = false;
     },
+    async getOwnerBytes() {
+      return resolvedOwnerBytes;
+    },
+    // Estimates the gas and fees of a transaction on the current chain so it
+    // can be shown to the user before signing
+    async estimateUserOperation(tx: Call, paymasterService?: PaymasterService) {
+      return estimateUserOperation([tx], paymasterService);
+    },
+    // Signs owner changes (calls to the wallet itself) as a user operation
+    // whose hash doesn't include the chain id, so the same operation can be
+    // replayed on every chain. Fees are 0 as it is submitted by the owner EOA.
+    async signReplayableUserOperation(ownerCalls: Hex[]) {
+      if (!isCoinbaseSmartWallet) {
+        throw new Error(
+          "Replayable user operations are only supported by the Coinbase Smart Wallet"
+        );
+      }
+      const ownerAccount = getOwnerEOA("Replaying owner changes");
+
+      // The operation can only be validated where the wallet is deployed
+      const deployed: { client: PublicClient; nonce: bigint }[] = [];
+      for (const chain of config.chains) {
+        const client = createPublicClient({
+          chain,
+          transport: config.transports?.[chain.id] ?? http(),
+        });
+        try {
+          if (!(await client.getCode({ address }))) continue;
+          deployed.push({
+            client,
+            nonce: await getReplayableNonce(client, address),
+          });
+        } catch (error) {
+          console.error(
+            `Error reading replayable nonce on ${chain.name}`,
+            error
+          );
+        }
+      }
+      if (!deployed.length) {
+        throw new Error(`Smart wallet ${address} is not deployed on any chain`);
+      }
+
+      // Chains behind have to replay the previous operations first
+      const nonce = deployed.reduce(
+        (max, x) => (x.nonce > max ? x.nonce : max),
+        REPLAYABLE_NONCE_KEY << BigInt(64)
+      );
+      const synced = deployed.filter((x) => x.nonce === nonce);
+
+      // The signature names the owner it's from, a wrong index fails validation
+      if (resolvedOwnerIndex === undefined) {
+        const owner = await findOwner(
+          synced[0].client,
+          address,
+          ownerCandidates
+        );
+        if (!owner) {
+          throw new Error(
+            `${ownerAccount.address} is not an owner of ${address}`
+          );
+        }
+        resolvedOwnerIndex = owner.index;
+        resolvedOwnerBytes = owner.bytes;
+      }
+      const signerIndex = resolvedOwnerIndex;
+
+      const userOp: UserOperationV06 = {
+        sender: address,
+        nonce,
+        initCode: "0x",
+        callData: encodeFunctionData({
+          abi: coinbaseSmartWalletReplayAbi,
+          functionName: "executeWithoutChainIdValidation",
+          args: [ownerCalls],
+        }),
+        callGasLimit: BigInt(0),
+        verificationGasLimit: BigInt(1_000_000),
+        preVerificationGas: BigInt(0),
+        maxFeePerGas: BigInt(0),
+        maxPriorityFeePerGas: BigInt(0),
+        paymasterAndData: "0x",
+        // Dummy ECDSA signature for the gas simulation
+        signature: wrapSignature(signerIndex, `0x${"ff".repeat(64)}1c`),
+      };
+
+      // The same gas limits are used everywhere, so take the highest
+      let callGasLimit = BigInt(0);
+      let verificationGasLimit = BigInt(0);
+      for (const { client } of synced) {
+        const chainCallGasLimit = await client.estimateGas({
+          account: entryPoint06Address,
+          to: address,
+          data: userOp.callData,
+        });
+        const chainVerificationGasLimit = await simulateVerificationGas(
+          client,
+          { ...userOp, callGasLimit: chainCallGasLimit }
+        );
+        if (chainCallGasLimit > callGasLimit) callGasLimit = chainCallGasLimit;
+        if (chainVerificationGasLimit > verificationGasLimit)
+          verificationGasLimit = chainVerificationGasLimit;
+      }
+
+      userOp.callGasLimit = applyMultiplier(
+        callGasLimit,
+        gasMultipliers.callGasLimit
+      );
+      userOp.verificationGasLimit = applyMultiplier(
+        verificationGasLimit,
+        gasMultipliers.verificationGasLimit
+      );
+      userOp.preVerificationGas = applyMultiplier(
+        getPreVerificationGas(userOp),
+        gasMultipliers.preVerificationGas
+      );
+
+      const hash = await synced[0].client.readContract({
+        address,
+        abi: coinbaseSmartWalletReplayAbi,
+        functionName: "getUserOpHashWithoutChainId",
+        args: [userOp],
+      });
+      userOp.signature = wrapSignature(
+        signerIndex,
+        await ownerAccount.sign({ hash })
+      );
+
+      console.log("signed replayable user op", userOp);
+      return userOp;
+    },
+    // Submits a replayable user operation on the given chain through the
+    // owner EOA, returning whether the owner changes were applied
+    async replayUserOperation({
+      chainId,
+      userOp,
+    }: {
+      chainId: number;
+      userOp: UserOperationV06;
+    }) {
+      const chain = config.chains.find((x) => x.id === chainId);
+      if (!chain) throw new ChainNotConfiguredError();
+
+      const transport = config.transports?.[chain.id] ?? http();
+      const publicClient = createPublicClient({ chain, transport });
+      const ownerAccount = getOwnerEOA("Replaying owner changes");
+      const ownerWalletClient = createWalletClient({
+        account: ownerAccount,
+        chain,
+        transport,
+      });
+
+      const transactionHash = await ownerWalletClient.writeContract({
+        abi: entryPoint06Abi,
+        address: entryPoint06Address,
+        functionName: "handleOps",
+        args: [[userOp], ownerAccount.address],
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({
+        hash: transactionHash,
+      });
+
+      // handleOps doesn't revert when the calls do, check the user op event
+      const [userOperationEvent] = parseEventLogs({
+        abi: entryPoint06Abi,
+        eventName: "UserOperationEvent",
+        logs: receipt.logs,
+      });
+
+      return {
+        transactionHash,
+        success:
+          receipt.status === "success" && !!userOperationEvent?.args.success,
+      };
+    },
     async getProvider({ chainId } = {}) {
       console.log("creating provider for chainId", chainId);
-      const ownerAccount = privateKeyToAccount(ownerPrivateKey);
       const chain =
         config.chains.find((x) => x.id === chainId) ?? config.chains[0];
       if (!chain) throw new ChainNotConfiguredError();
@@ -124,31 +570,452 @@ export function headlessCSWConnector({
         chain,
         transport,
       });
-      const account = await toCoinbaseSmartAccount({
+      // Look up the owner key's index (and a passkey's public key), on this
+      // chain if the wallet is deployed
+      if (
+        isCoinbaseSmartWallet &&
+        (resolvedOwnerIndex === undefined || !resolvedOwnerBytes)
+      ) {
+        for (const x of [chain, ...config.chains]) {
+          const client =
+            x.id === chain.id
+              ? publicClient
+              : createPublicClient({
+                  chain: x,
+                  transport: config.transports?.[x.id] ?? http(),
+                });
+          try {
+            if (!(await client.getCode({ address }))) continue;
+
+            const owner = await findOwner(client, address, ownerCandidates);
+            if (owner) {
+              resolvedOwnerIndex = owner.index;
+              resolvedOwnerBytes = owner.bytes;
+              break;
+            }
+          } catch (error) {
+            console.error(`Error finding owner index on ${x.name}`, error);
+          }
+        }
+        console.log("detected owner index", resolvedOwnerIndex);
+      }
+      if (!resolvedOwnerBytes) {
+        throw new Error(
+          `The passkey is not an owner of ${address} on any configured chain`
+        );
+      }
+      const ownerBytes = resolvedOwnerBytes;
+
+      const account = await toHeadlessSmartAccount({
+        implementation,
+        entryPointVersion,
         client: publicClient,
-        owners: [ownerAccount],
-        ownerIndex,
+        owner: ownerPrivateKey
+          ? privateKeyToAccount(ownerPrivateKey)
+          : toWebAuthnAccount({
+              credential: { id: passkeyCredential!.id, publicKey: ownerBytes },
+            }),
+        ownerIndex: resolvedOwnerIndex ?? 0,
         address,
       });
 
-      const ownerWalletClient = createWalletClient({
-        account: ownerAccount,
-        chain,
-        transport,
-      });
-
       walletClient = createWalletClient({
         account,
         chain,
         transport,
       });
 
+      const bundlerUrl = bundlerUrls[chain.id];
       const bundlerClient = createBundlerClient({
         account,
         client: publicClient,
-        transport: http(),
+        transport: http(bundlerUrl),
       });
 
+      // Owner lists that may have created the wallet, read from the first
+      // chain where it is deployed. Removed owners leave an empty slot, so
+      // only prefixes without gaps are candidates.
+      const getCandidateOwners = async (): Promise<Hex[][]> => {
+        const fallback = [ownerBytes];
+
+        for (const otherChain of config.chains) {
+          if (otherChain.id === chain.id) continue;
+
+          const otherClient = createPublicClient({
+            chain: otherChain,
+            transport: config.transports?.[otherChain.id] ?? http(),
+          });
+          try {
+            if (!(await otherClient.getCode({ address }))) continue;
+
+            const owners = await readOwners(otherClient, address);
+
+            const candidates: Hex[][] = [];
+            for (const owner of owners) {
+              if (owner.type === "removed") break;
+              candidates.push(
+                owners.slice(0, owner.index + 1).map((x) => x.bytes)
+              );
+            }
+            return [...candidates.reverse(), fallback];
+          } catch (error) {
+            console.error(`Error reading owners on ${otherChain.name}`, error);
+          }
+        }
+
+        return [fallback];
+      };
+
+      // Returns the factory initCode if the wallet isn't deployed on this chain
+      const getInitCode = async (): Promise<Hex> => {
+        if (await publicClient.getCode({ address })) return "0x";
+
+        // Other implementations are created from the owner key alone
+        if (!isCoinbaseSmartWallet) {
+          const { factory, factoryData } = await account.getFactoryArgs();
+          return factory && factoryData ? concat([factory, factoryData]) : "0x";
+        }
+        const { factory } = account as ToCoinbaseSmartAccountReturnType;
+
+        const candidates = deploymentOwners
+          ? [deploymentOwners]
+          : await getCandidateOwners();
+
+        for (const owners of candidates) {
+          const counterfactualAddress = await publicClient.readContract({
+            ...factory,
+            functionName: "getAddress",
+            args: [owners, BigInt(0)],
+          });
+          if (isAddressEqual(counterfactualAddress, address)) {
+            deploymentOwners = owners;
+            return concat([
+              factory.address,
+              encodeFunctionData({
+                abi: factory.abi,
+                functionName: "createAccount",
+                args: [owners, BigInt(0)],
+              }),
+            ]);
+          }
+        }
+
+        throw new Error(
+          `Smart wallet ${address} is not deployed on ${chain.name} and its initial owners could not be determined`
+        );
+      };
+
+      // viem wraps signatures of undeployed wallets in ERC-6492 with a single
+      // owner factory call, which doesn't deploy recovered Coinbase Smart
+      // Wallets at their address. Rewrap with the actual initial owners.
+      const toErc6492Signature = async (signature: Hex) => {
+        const { signature: innerSignature } = parseErc6492Signature(signature);
+
+        const initCode = await getInitCode();
+        if (initCode === "0x") return innerSignature;
+
+        return serializeErc6492Signature({
+          address: slice(initCode, 0, 20),
+          data: slice(initCode, 20),
+          signature: innerSignature,
+        });
+      };
+
+      // Checks the signature the way a dapp would before handing it out:
+      // isValidSignature when deployed, the ERC-6492 universal validator
+      // through eth_call otherwise
+      const verifySignature = async (hash: Hex, signature: Hex) => {
+        let isValid: boolean;
+        try {
+          isValid = await verifyHash(publicClient, {
+            address,
+            hash,
+            signature,
+          });
+        } catch (error) {
+          console.warn("Could not verify the signature", error);
+          return;
+        }
+
+        if (!isValid) {
+          throw new Error(
+            `The signature is not valid for ${address} on ${chain.name}`
+          );
+        }
+      };
+
+      const signHash = async (hash: Hex, sign: () => Promise<Hex>) => {
+        const signature = await toErc6492Signature(await sign());
+        await verifySignature(hash, signature);
+        return signature;
+      };
+
+      // Without a bundler, estimate the call gas as an EntryPoint call and the
+      // verification gas by simulating the account's validation
+      const simulateUserOperationGas = async (calls: Call[], initCode: Hex) => {
+        const callData = await account.encodeCalls(calls);
+
+        // An undeployed wallet is simulated with the implementation's code
+        let implementationCode: Hex | undefined;
+        if (initCode !== "0x") {
+          if (!isCoinbaseSmartWallet) {
+            throw new Error(
+              `Deploying a ${smartAccountImplementations[implementation].name} account requires a bundler`
+            );
+          }
+          const { factory } = account as ToCoinbaseSmartAccountReturnType;
+          implementationCode = await publicClient.getCode({
+            address: await publicClient.readContract({
+              ...factory,
+              functionName: "implementation",
+            }),
+          });
+        }
+
+        const callGasLimit = await publicClient.estimateGas({
+          account: account.entryPoint.address,
+          to: account.address,
+          data: callData,
+          stateOverride: implementationCode
+            ? [{ address: account.address, code: implementationCode }]
+            : undefined,
+        });
+
+        const userOp = {
+          sender: account.address,
+          nonce: await account.getNonce(),
+          callData,
+          callGasLimit,
+          verificationGasLimit: BigInt(1_000_000),
+          preVerificationGas: BigInt(0),
+          maxFeePerGas: BigInt(0),
+          maxPriorityFeePerGas: BigInt(0),
+          signature: await account.getStubSignature(),
+        };
+
+        if (account.entryPoint.version === "0.6") {
+          const userOp06: UserOperationV06 = {
+            ...userOp,
+            initCode,
+            paymasterAndData: "0x",
+          };
+          return {
+            callGasLimit,
+            verificationGasLimit: await simulateVerificationGas(
+              publicClient,
+              userOp06
+            ),
+            preVerificationGas: getPreVerificationGas(userOp06),
+          };
+        }
+
+        const packedUserOp = toPackedUserOperation(userOp);
+        return {
+          callGasLimit,
+          verificationGasLimit: await estimateVerificationGas07(
+            publicClient,
+            packedUserOp
+          ),
+          preVerificationGas: getPreVerificationGas(packedUserOp),
+        };
+      };
+
+      // The Coinbase Smart Wallet is deployed with its actual owners, other
+      // accounts are left to fill in their own factory
+      const getDeploymentParameters = (initCode: Hex) =>
+        isCoinbaseSmartWallet ? { initCode } : {};
+
+      // A dapp requested paymaster (wallet_sendCalls capability) takes
+      // precedence over the one configured for this chain. Sponsored
+      // operations are only sent through the bundler.
+      const getPaymasterParameters = (paymasterService?: PaymasterService) => {
+        const paymasterUrl = paymasterService?.url ?? paymasterUrls[chain.id];
+        if (!bundlerUrl || !paymasterUrl) return {};
+
+        return {
+          paymaster: createPaymasterClient({ transport: http(paymasterUrl) }),
+          paymasterContext: paymasterService?.context,
+        };
+      };
+
+      estimateUserOperation = async (calls, paymasterService) => {
+        const initCode = await getInitCode();
+        const paymasterParameters = getPaymasterParameters(paymasterService);
+        const gas = bundlerUrl
+          ? await bundlerClient.estimateUserOperationGas({
+              calls,
+              ...getDeploymentParameters(initCode),
+              ...paymasterParameters,
+            })
+          : await simulateUserOperationGas(calls, initCode);
+        // EntryPoint v0.7 limits the paymaster's gas separately
+        const { paymasterVerificationGasLimit, paymasterPostOpGasLimit } =
+          gas as {
+            paymasterVerificationGasLimit?: bigint;
+            paymasterPostOpGasLimit?: bigint;
+          };
+        // When self-bundling, the fees are paid by the owner's handleOps
+        // transaction, so they are only used to compute the cost here
+        const fees = await publicClient.estimateFeesPerGas();
+
+        const callGasLimit = applyMultiplier(
+          gas.callGasLimit,
+          gasMultipliers.callGasLimit
+        );
+        const verificationGasLimit = applyMultiplier(
+          gas.verificationGasLimit,
+          gasMultipliers.verificationGasLimit
+        );
+        const preVerificationGas = applyMultiplier(
+          gas.preVerificationGas,
+          gasMultipliers.preVerificationGas
+        );
+
+        return {
+          callGasLimit,
+          verificationGasLimit,
+          preVerificationGas,
+          paymasterVerificationGasLimit,
+          paymasterPostOpGasLimit,
+          maxFeePerGas: fees.maxFeePerGas,
+          maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+          maxCost:
+            (callGasLimit +
+              verificationGasLimit +
+              preVerificationGas +
+              (paymasterVerificationGasLimit ?? BigInt(0)) +
+              (paymasterPostOpGasLimit ?? BigInt(0))) *
+            fees.maxFeePerGas,
+          payer:
+            "paymaster" in paymasterParameters
+              ? "paymaster"
+              : bundlerUrl
+              ? "smartWallet"
+              : "owner",
+          initCode,
+        };
+      };
+
+      // Submits the calls as a single user operation and returns a function
+      // that waits for the transaction that includes it
+      const submitCalls = async (
+        calls: Call[],
+        paymasterService?: PaymasterService
+      ): Promise<() => Promise<TransactionReceipt>> => {
+        const estimate = await estimateUserOperation(calls, paymasterService);
+        console.log("estimated user op", estimate);
+
+        const {
+          callGasLimit,
+          verificationGasLimit,
+          preVerificationGas,
+          initCode,
+        } = estimate;
+
+        if (bundlerUrl) {
+          const userOperation = {
+            calls,
+            callGasLimit,
+            verificationGasLimit,
+            preVerificationGas,
+            maxFeePerGas: estimate.maxFeePerGas,
+            maxPriorityFeePerGas: estimate.maxPriorityFeePerGas,
+            ...getPaymasterParameters(paymasterService),
+          };
+          // Paymaster gas limits are only set for EntryPoint v0.7, which the
+          // Coinbase Smart Wallet (deployed through initCode) doesn't use
+          const userOpHash =
+            estimate.paymasterVerificationGasLimit !== undefined
+              ? await bundlerClient.sendUserOperation({
+                  ...userOperation,
+                  paymasterVerificationGasLimit:
+                    estimate.paymasterVerificationGasLimit,
+                  paymasterPostOpGasLimit: estimate.paymasterPostOpGasLimit,
+                })
+              : await bundlerClient.sendUserOperation({
+                  ...userOperation,
+                  ...getDeploymentParameters(initCode),
+                });
+
+          console.log("sent user op", userOpHash);
+
+          // Polls eth_getUserOperationReceipt until the op is included
+          return async () => {
+            const { receipt } = await bundlerClient.waitForUserOperationReceipt(
+              { hash: userOpHash }
+            );
+            return receipt;
+          };
+        }
+
+        // Fallback: self-bundle by having the owner EOA call handleOps
+        if (paymasterService) {
+          console.warn("No bundler, the owner pays instead of the paymaster");
+        }
+        const ownerAccount = getOwnerEOA(
+          "Sending user operations without a bundler"
+        );
+        const ownerWalletClient = createWalletClient({
+          account: ownerAccount,
+          chain,
+          transport,
+        });
+
+        const userOp = await bundlerClient.prepareUserOperation({
+          calls,
+          maxFeePerGas: BigInt(0),
+          callGasLimit,
+          preVerificationGas,
+          verificationGasLimit,
+          maxPriorityFeePerGas: BigInt(0),
+          ...getDeploymentParameters(initCode),
+        });
+
+        console.log("prepared user op", userOp);
+
+        const userOpSignature = await account.signUserOperation(
+          userOp as UserOperation
+        );
+
+        console.log("signed user op", userOpSignature);
+
+        const executeTx =
+          account.entryPoint.version === "0.6"
+            ? await ownerWalletClient.writeContract({
+                abi: entryPoint06Abi,
+                address: entryPoint06Address,
+                functionName: "handleOps",
+                args: [
+                  [
+                    {
+                      ...userOp,
+                      initCode,
+                      signature: userOpSignature,
+                    } as UserOperationV06,
+                  ],
+                  ownerAccount.address,
+                ],
+              })
+            : await ownerWalletClient.writeContract({
+                abi: entryPoint07Abi,
+                address: entryPoint07Address,
+                functionName: "handleOps",
+                args: [
+                  [
+                    toPackedUserOperation({
+                      ...userOp,
+                      signature: userOpSignature,
+                    } as UserOperation<"0.7">),
+                  ],
+                  ownerAccount.address,
+                ],
+              });
+
+        console.log({ executeTx });
+        return () =>
+          publicClient.waitForTransactionReceipt({ hash: executeTx });
+      };
+
       return {
         ...walletClient,
         request: async (...args) => {
@@ -158,43 +1025,121 @@ export function headlessCSWConnector({
             // @ts-ignore -- params is an array of unknown types
             const tx = args[0].params[0];
 
-            const userOp = await bundlerClient.prepareUserOperation({
-              calls: [
-                {
-                  to: tx.to,
-                  from: getAddress(account.address),
-                  data: tx.data,
-                  value: tx.value,
-                },
-              ],
-              maxFeePerGas: BigInt(0),
-              callGasLimit: BigInt(1_000_000),
-              preVerificationGas: BigInt(1_000_000),
-              verificationGasLimit: BigInt(1_000_000),
-              maxPriorityFeePerGas: BigInt(0),
-              initCode: "0x",
-            });
-
-            console.log("prepared user op", userOp);
-
-            const userOpSignature = await account.signUserOperation(userOp);
-
-            console.log("signed user op", userOpSignature);
-
-            const executeTx = await ownerWalletClient.writeContract({
-              abi: entryPoint06Abi,
-              address: entryPoint06Address,
-              functionName: "handleOps",
-              args: [
-                [{ ...userOp, initCode: "0x", signature: userOpSignature }],
-                ownerAccount.address,
-              ],
-            });
-
-            await publicClient.waitForTransactionReceipt({ hash: executeTx });
-
-            console.log({ executeTx });
-            return executeTx;
+            const waitForReceipt = await submitCalls([
+              {
+                to: tx.to,
+                data: tx.data,
+                value: tx.value ? BigInt(tx.value) : undefined,
+              },
+            ]);
+            const receipt = await waitForReceipt();
+
+            return receipt.transactionHash;
+          } else if (args[0].method === "wallet_sendCalls") {
+            const {
+              calls,
+              chainId: callsChainId,
+              capabilities,
+              // @ts-ignore -- params is an array of unknown types
+            } = args[0].params[0];
+
+            if (callsChainId && Number(callsChainId) !== chain.id) {
+              throw new Error(
+                `wallet_sendCalls chain ${Number(
+                  callsChainId
+                )} does not match the connected chain ${chain.id}`
+              );
+            }
+
+            // All calls are executed atomically through executeBatch
+            const waitForReceipt = await submitCalls(
+              calls.map((call: { to: Hex; data?: Hex; value?: Hex }) => ({
+                to: call.to,
+                data: call.data,
+                value: call.value ? BigInt(call.value) : undefined,
+              })),
+              capabilities?.paymasterService
+            );
+
+            const id = bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+            callsStatuses.set(id, { chainId: chain.id, status: 100 });
+
+            waitForReceipt()
+              .then((receipt) => {
+                callsStatuses.set(id, {
+                  chainId: chain.id,
+                  status: receipt.status === "success" ? 200 : 500,
+                  receipt,
+                });
+              })
+              .catch((error) => {
+                console.error("Error waiting for calls", error);
+                callsStatuses.set(id, { chainId: chain.id, status: 400 });
+              });
+
+            return { id };
+          } else if (args[0].method === "wallet_getCallsStatus") {
+            // @ts-ignore -- params is an array of unknown types
+            const id: string = args[0].params[0];
+            const callsStatus = callsStatuses.get(id);
+            if (!callsStatus) throw new Error(`Unknown calls id ${id}`);
+
+            const { receipt } = callsStatus;
+            return {
+              version: "2.0.0",
+              id,
+              chainId: numberToHex(callsStatus.chainId),
+              status: callsStatus.status,
+              atomic: true,
+              receipts: receipt
+                ? [
+                    {
+                      logs: receipt.logs.map(({ address, data, topics }) => ({
+                        address,
+                        data,
+                        topics,
+                      })),
+                      status: receipt.status === "success" ? "0x1" : "0x0",
+                      blockHash: receipt.blockHash,
+                      blockNumber: numberToHex(receipt.blockNumber),
+                      gasUsed: numberToHex(receipt.gasUsed),
+                      transactionHash: receipt.transactionHash,
+                    },
+                  ]
+                : undefined,
+            };
+          } else if (args[0].method === "wallet_showCallsStatus") {
+            // @ts-ignore -- params is an array of unknown types
+            const id: string = args[0].params[0];
+            const callsStatus = callsStatuses.get(id);
+            if (!callsStatus) throw new Error(`Unknown calls id ${id}`);
+
+            const explorerUrl = config.chains.find(
+              (x) => x.id === callsStatus.chainId
+            )?.blockExplorers?.default.url;
+            if (callsStatus.receipt && explorerUrl) {
+              window.open(
+                `${explorerUrl}/tx/${callsStatus.receipt.transactionHash}`,
+                "_blank"
+              );
+            }
+            return null;
+          } else if (args[0].method === "wallet_getCapabilities") {
+            return config.chains.reduce<Record<Hex, object>>(
+              (capabilities, x) => {
+                capabilities[numberToHex(x.id)] = {
+                  atomic: { status: "supported" },
+                  // Pre EIP-5792 v2 name of the atomic capability
+                  atomicBatch: { supported: true },
+                  // ERC-7677, sponsored operations are sent through the bundler
+                  ...(bundlerUrls[x.id]
+                    ? { paymasterService: { supported: true } }
+                    : {}),
+                };
+                return capabilities;
+              },
+              {}
+            );
           } else if (args[0].method === "eth_signTypedData_v4") {
             // @ts-ignore -- params is an array of unknown types
             let typedData = args[0].params[1];
@@ -202,10 +1147,34 @@ export function headlessCSWConnector({
               typedData = JSON.parse(typedData);
             } catch (e) {}
 
-            const signature = await walletClient.signTypedData({
-              ...typedData,
-            });
-            return signature;
+            return signHash(hashTypedData(typedData), () =>
+              walletClient.signTypedData({
+                ...typedData,
+              })
+            );
+          } else if (
+            args[0].method === "personal_sign" ||
+            args[0].method === "eth_sign"
+          ) {
+            // personal_sign takes [message, address], eth_sign [address, message]
+            // @ts-ignore -- params is an array of unknown types
+            const params: Hex[] = args[0].params;
+            const message =
+              args[0].method === "personal_sign" ? params[0] : params[1];
+
+            return signHash(hashMessage({ raw: message }), () =>
+              account.signMessage({
+                message: { raw: message },
+              })
+            );
+          } else if (args[0].method === "eth_signTransaction") {
+            // Calls go through user operations, there is no transaction the
+            // smart account could sign
+            throw new UnsupportedProviderMethodError(
+              new Error(
+                "eth_signTransaction is not supported by smart accounts"
+              )
+            );
           }
 
           const result = await walletClient.request(...args);
@@ -0,0 +1,42 @@
+// Database holding a single object store, opened for each request
+export const createObjectStore = <T>(
+  dbName: string,
+  storeName: string,
+  keyPath: string
+) => {
+  const open = () =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () =>
+        request.result.createObjectStore(storeName, { keyPath });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+  const run = async <R>(
+    mode: IDBTransactionMode,
+    getRequest: (store: IDBObjectStore) => IDBRequest<R>
+  ) => {
+    const db = await open();
+
+    try {
+      return await new Promise<R>((resolve, reject) => {
+        const request = getRequest(
+          db.transaction(storeName, mode).objectStore(storeName)
+        );
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    } finally {
+      db.close();
+    }
+  };
+
+  return {
+    getAll: () => run<T[]>("readonly", (store) => store.getAll()),
+    put: (value: T) => run("readwrite", (store) => store.put(value)),
+    delete: (key: IDBValidKey) =>
+      run("readwrite", (store) => store.delete(key)),
+    clear: () => run("readwrite", (store) => store.clear()),
+  };
+};
@@ -0,0 +1,150 @@
+import {
+  Badge,
+  Box,
+  Button,
+  Skeleton,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  VStack,
+} from "@chakra-ui/react";
+import { chainIdToChain } from "@/data/common";
+import { UserOperationV06 } from "../../headless-csw-connector";
+import {
+  ChainReplayStatus,
+  getMissingUserOps,
+  getReplayableSequence,
+} from "../replay";
+
+interface ChainSyncTableProps {
+  statuses: ChainReplayStatus[];
+  isLoading: boolean;
+  replayableUserOps: UserOperationV06[];
+  syncingChainId: number | null;
+  canSync: boolean;
+  onSync: (chainId: number, userOps: UserOperationV06[]) => void;
+}
+
+export default function ChainSyncTable({
+  statuses,
+  isLoading,
+  replayableUserOps,
+  syncingChainId,
+  canSync,
+  onSync,
+}: ChainSyncTableProps) {
+  // The chain with the most replayed operations is the reference
+  const reference = statuses.reduce<ChainReplayStatus | undefined>(
+    (max, status) =>
+      status.nonce !== undefined &&
+      (max?.nonce === undefined || status.nonce > max.nonce)
+        ? status
+        : max,
+    undefined
+  );
+  const referenceOwners = reference?.owners
+    ?.map((owner) => owner.bytes.toLowerCase())
+    .join(",");
+
+  const renderStatus = (status: ChainReplayStatus) => {
+    if (status.error) return <Badge colorScheme="red">error</Badge>;
+    if (!status.deployed || status.nonce === undefined)
+      return <Badge colorScheme="gray">not deployed</Badge>;
+    if (reference?.nonce !== undefined && status.nonce < reference.nonce)
+      return (
+        <Badge colorScheme="orange">
+          behind by {(reference.nonce - status.nonce).toString()}
+        </Badge>
+      );
+    // Same replayed operations, but owners changed with chain specific ones
+    if (
+      status.owners?.map((owner) => owner.bytes.toLowerCase()).join(",") !==
+      referenceOwners
+    )
+      return <Badge colorScheme="red">owners differ</Badge>;
+    return <Badge colorScheme="green">in sync</Badge>;
+  };
+
+  if (isLoading) {
+    return (
+      <VStack p={4} spacing={3} align="stretch">
+        <Skeleton height="20px" />
+        <Skeleton height="20px" />
+        <Skeleton height="20px" />
+      </VStack>
+    );
+  }
+
+  return (
+    <Box overflowX="auto">
+      <Table size="sm">
+        <Thead>
+          <Tr>
+            <Th>Chain</Th>
+            <Th>Replay Nonce</Th>
+            <Th>Owners</Th>
+            <Th>Status</Th>
+            <Th />
+          </Tr>
+        </Thead>
+        <Tbody>
+          {statuses.map((status) => {
+            const missingUserOps =
+              status.nonce !== undefined && reference?.nonce !== undefined
+                ? getMissingUserOps(
+                    replayableUserOps,
+                    status.nonce,
+                    reference.nonce
+                  )
+                : undefined;
+
+            return (
+              <Tr key={status.chainId}>
+                <Td>
+                  {chainIdToChain[status.chainId]?.name ??
+                    `Chain ${status.chainId}`}
+                </Td>
+                <Td>
+                  {status.nonce !== undefined
+                    ? getReplayableSequence(status.nonce).toString()
+                    : "-"}
+                </Td>
+                <Td>
+                  {status.owners
+                    ? status.owners.filter((owner) => owner.type !== "removed")
+                        .length
+                    : "-"}
+                </Td>
+                <Td>{renderStatus(status)}</Td>
+                <Td>
+                  {missingUserOps && missingUserOps.length > 0 && (
+                    <Button
+                      size="xs"
+                      onClick={() => onSync(status.chainId, missingUserOps)}
+                      isLoading={syncingChainId === status.chainId}
+                      isDisabled={!canSync || syncingChainId !== null}
+                    >
+                      Sync
+                    </Button>
+                  )}
+                  {!missingUserOps &&
+                    reference?.nonce !== undefined &&
+                    status.nonce !== undefined &&
+                    status.nonce < reference.nonce && (
+                      <Text fontSize="xs" color="whiteAlpha.600">
+                        signed elsewhere
+                      </Text>
+                    )}
+                </Td>
+              </Tr>
+            );
+          })}
+        </Tbody>
+      </Table>
+    </Box>
+  );
+}
@@ -0,0 +1,13 @@
+import { getMetadata } from "@/utils";
+
+export const metadata = getMetadata({
+  title: "Smart Wallet Owners | Swiss-Knife.xyz",
+  description: "View and manage the owners of a Coinbase Smart Wallet",
+  images: "https://swiss-knife.xyz/og/wallet-bridge.png",
+});
+
+const WalletOwnersLayout = ({ children }: { children: React.ReactNode }) => {
+  return <>{children}</>;
+};
+
+export default WalletOwnersLayout;
@@ -0,0 +1,588 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Heading,
+  HStack,
+  Input,
+  Select,
+  Skeleton,
+  Switch,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  VStack,
+  useToast,
+} from "@chakra-ui/react";
+import {
+  useAccount,
+  useChainId,
+  usePublicClient,
+  useWalletClient,
+} from "wagmi";
+import {
+  Address,
+  Hex,
+  encodeFunctionData,
+  isAddress,
+  isAddressEqual,
+  isHex,
+  size,
+  slice,
+} from "viem";
+import { chainIdToChain } from "@/data/common";
+import { walletChains } from "@/data/chains";
+import {
+  isHeadlessCSWConnector,
+  UserOperationV06,
+} from "../headless-csw-connector";
+import ChainSyncTable from "./components/ChainSyncTable";
+import {
+  ChainReplayStatus,
+  loadReplayableUserOps,
+  readChainReplayStatus,
+  saveReplayableUserOp,
+} from "./replay";
+import {
+  coinbaseSmartWalletOwnersAbi,
+  readOwners,
+  SmartWalletOwner,
+} from "./utils";
+
+export default function SmartWalletOwnersPage() {
+  const toast = useToast();
+  const { address: connectedAddress, connector } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient({ chainId });
+  const { data: walletClient } = useWalletClient();
+
+  const [walletAddress, setWalletAddress] = useState<string>("");
+  const [owners, setOwners] = useState<SmartWalletOwner[] | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [signerOwnerBytes, setSignerOwnerBytes] = useState<Hex | null>(null);
+
+  const [checkAddress, setCheckAddress] = useState<string>("");
+  const [isOwnerResult, setIsOwnerResult] = useState<boolean | null>(null);
+
+  const [newOwnerType, setNewOwnerType] = useState<"address" | "publicKey">(
+    "address"
+  );
+  const [newOwner, setNewOwner] = useState<string>("");
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const [chainStatuses, setChainStatuses] = useState<ChainReplayStatus[]>([]);
+  const [isLoadingChains, setIsLoadingChains] = useState<boolean>(false);
+  const [replayableUserOps, setReplayableUserOps] = useState<
+    UserOperationV06[]
+  >([]);
+  const [syncingChainId, setSyncingChainId] = useState<number | null>(null);
+  const [replayAll, setReplayAll] = useState<boolean>(false);
+
+  // Default to the connected wallet
+  useEffect(() => {
+    if (connectedAddress) setWalletAddress(connectedAddress);
+  }, [connectedAddress]);
+
+  // The headless connector signs with one of the owners, highlight it
+  useEffect(() => {
+    if (isHeadlessCSWConnector(connector)) {
+      connector
+        .getOwnerBytes()
+        .then((bytes) => setSignerOwnerBytes(bytes ?? null));
+    } else {
+      setSignerOwnerBytes(null);
+    }
+  }, [connector]);
+
+  const fetchOwners = useCallback(async () => {
+    setOwners(null);
+    if (!publicClient || !isAddress(walletAddress)) return;
+
+    try {
+      setIsLoading(true);
+
+      const code = await publicClient.getCode({ address: walletAddress });
+      if (!code) {
+        throw new Error(
+          `The smart wallet is not deployed on ${
+            chainIdToChain[chainId]?.name ?? `chain ${chainId}`
+          }`
+        );
+      }
+
+      setOwners(await readOwners(publicClient, walletAddress));
+    } catch (error) {
+      console.error("Error reading owners:", error);
+      toast({
+        title: "Failed to read owners",
+        description: (error as Error).message,
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+        position: "bottom-right",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient, walletAddress, chainId, toast]);
+
+  useEffect(() => {
+    fetchOwners();
+  }, [fetchOwners]);
+
+  const fetchChainStatuses = useCallback(async () => {
+    setChainStatuses([]);
+    if (!isAddress(walletAddress)) return;
+
+    setReplayableUserOps(loadReplayableUserOps(walletAddress));
+    setIsLoadingChains(true);
+    setChainStatuses(
+      await Promise.all(
+        walletChains.map((chain) => readChainReplayStatus(chain, walletAddress))
+      )
+    );
+    setIsLoadingChains(false);
+  }, [walletAddress]);
+
+  useEffect(() => {
+    fetchChainStatuses();
+  }, [fetchChainStatuses]);
+
+  const signerIndex = owners?.find(
+    (owner) =>
+      signerOwnerBytes &&
+      owner.bytes.toLowerCase() === signerOwnerBytes.toLowerCase()
+  )?.index;
+  const activeOwnersCount =
+    owners?.filter((owner) => owner.type !== "removed").length ?? 0;
+
+  // Owner changes are calls from the wallet to itself, so it must be connected
+  const canManage =
+    !!walletClient &&
+    !!connectedAddress &&
+    isAddress(walletAddress) &&
+    isAddressEqual(connectedAddress, walletAddress);
+  // Replaying needs the owner key, so only the headless connector can do it
+  const canReplay = canManage && isHeadlessCSWConnector(connector);
+
+  // Submits the replayable user operations in order, stopping at the first
+  // one that fails
+  const replayOnChain = async (
+    chainId: number,
+    userOps: UserOperationV06[]
+  ) => {
+    try {
+      setSyncingChainId(chainId);
+      if (!isHeadlessCSWConnector(connector)) {
+        throw new Error("Replaying needs the headless smart wallet connector");
+      }
+
+      for (const userOp of userOps) {
+        const { transactionHash, success } =
+          await connector.replayUserOperation({ chainId, userOp });
+        if (!success) {
+          throw new Error(`Owner changes reverted in ${transactionHash}`);
+        }
+      }
+
+      return true;
+    } catch (error) {
+      console.error(`Error replaying on chain ${chainId}:`, error);
+      toast({
+        title: `Failed to replay on ${
+          chainIdToChain[chainId]?.name ?? `chain ${chainId}`
+        }`,
+        description: (error as Error).message,
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+        position: "bottom-right",
+      });
+      return false;
+    } finally {
+      setSyncingChainId(null);
+    }
+  };
+
+  const syncChain = async (
+    syncedChainId: number,
+    userOps: UserOperationV06[]
+  ) => {
+    await replayOnChain(syncedChainId, userOps);
+    await fetchChainStatuses();
+    if (syncedChainId === chainId) await fetchOwners();
+  };
+
+  // Signs the owner change once and replays it on every chain in sync
+  const replayOwnerCall = async (data: `0x${string}`) => {
+    if (!isHeadlessCSWConnector(connector)) {
+      throw new Error("Replaying needs the headless smart wallet connector");
+    }
+    const userOp = await connector.signReplayableUserOperation([data]);
+    saveReplayableUserOp(userOp);
+    setReplayableUserOps(loadReplayableUserOps(walletAddress as Address));
+
+    const targets = chainStatuses.filter(
+      (status) => status.nonce === userOp.nonce
+    );
+    let replayed = 0;
+    for (const target of targets) {
+      if (await replayOnChain(target.chainId, [userOp])) replayed++;
+    }
+
+    await fetchChainStatuses();
+    return `Replayed on ${replayed} of ${targets.length} chains`;
+  };
+
+  const sendOwnerCall = async (label: string, data: `0x${string}`) => {
+    if (!walletClient || !canManage) return;
+
+    try {
+      setPendingAction(label);
+
+      const description =
+        replayAll && canReplay
+          ? await replayOwnerCall(data)
+          : `Transaction: ${await walletClient.sendTransaction({
+              account: connectedAddress,
+              to: walletAddress as Address,
+              data,
+            })}`;
+
+      toast({
+        title: "Owners updated",
+        description,
+        status: "success",
+        duration: 5000,
+        isClosable: true,
+        position: "bottom-right",
+      });
+
+      await fetchOwners();
+    } catch (error) {
+      console.error("Error updating owners:", error);
+      toast({
+        title: "Failed to update owners",
+        description: (error as Error).message,
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+        position: "bottom-right",
+      });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const addOwner = async () => {
+    if (newOwnerType === "address") {
+      if (!isAddress(newOwner)) {
+        toast({
+          title: "Invalid address",
+          status: "error",
+          duration: 3000,
+          isClosable: true,
+          position: "bottom-right",
+        });
+        return;
+      }
+
+      await sendOwnerCall(
+        "add",
+        encodeFunctionData({
+          abi: coinbaseSmartWalletOwnersAbi,
+          functionName: "addOwnerAddress",
+          args: [newOwner],
+        })
+      );
+    } else {
+      // P-256 public key as the concatenated 32 byte x and y coordinates
+      if (!isHex(newOwner) || size(newOwner) !== 64) {
+        toast({
+          title: "Invalid public key",
+          description: "Expected 64 bytes of hex (x and y coordinates)",
+          status: "error",
+          duration: 3000,
+          isClosable: true,
+          position: "bottom-right",
+        });
+        return;
+      }
+
+      await sendOwnerCall(
+        "add",
+        encodeFunctionData({
+          abi: coinbaseSmartWalletOwnersAbi,
+          functionName: "addOwnerPublicKey",
+          args: [slice(newOwner, 0, 32), slice(newOwner, 32, 64)],
+        })
+      );
+    }
+
+    setNewOwner("");
+  };
+
+  const removeOwner = async (owner: SmartWalletOwner) => {
+    if (
+      owner.index === signerIndex &&
+      !window.confirm(
+        "This is the key the bridge signs with. Removing it will make you lose access to the wallet from here. Continue?"
+      )
+    )
+      return;
+
+    await sendOwnerCall(
+      `remove-${owner.index}`,
+      encodeFunctionData({
+        abi: coinbaseSmartWalletOwnersAbi,
+        functionName: "removeOwnerAtIndex",
+        args: [BigInt(owner.index), owner.bytes],
+      })
+    );
+  };
+
+  const checkIsOwner = async () => {
+    if (!publicClient || !isAddress(walletAddress) || !isAddress(checkAddress))
+      return;
+
+    try {
+      const isOwner = await publicClient.readContract({
+        address: walletAddress,
+        abi: coinbaseSmartWalletOwnersAbi,
+        functionName: "isOwnerAddress",
+        args: [checkAddress],
+      });
+      setIsOwnerResult(isOwner);
+    } catch (error) {
+      console.error("Error checking owner:", error);
+      setIsOwnerResult(null);
+    }
+  };
+
+  return (
+    <VStack
+      spacing={6}
+      align="stretch"
+      w="100%"
+      maxW={{ base: "100%", md: "700px", lg: "800px" }}
+      mx="auto"
+    >
+      <Heading size="xl">👥 Smart Wallet Owners</Heading>
+
+      <FormControl>
+        <FormLabel>Smart Wallet Address</FormLabel>
+        <Input
+          placeholder="0x..."
+          value={walletAddress}
+          onChange={(e) => setWalletAddress(e.target.value)}
+        />
+        <FormHelperText>
+          Owners of the Coinbase Smart Wallet on{" "}
+          {chainIdToChain[chainId]?.name ?? `chain ${chainId}`}
+        </FormHelperText>
+      </FormControl>
+
+      <Box borderWidth={1} borderRadius="lg" overflowX="auto">
+        {isLoading ? (
+          <VStack p={4} spacing={3} align="stretch">
+            <Skeleton height="20px" />
+            <Skeleton height="20px" />
+            <Skeleton height="20px" />
+          </VStack>
+        ) : owners ? (
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>Index</Th>
+                <Th>Owner</Th>
+                <Th>Type</Th>
+                <Th />
+              </Tr>
+            </Thead>
+            <Tbody>
+              {owners.map((owner) => (
+                <Tr key={owner.index}>
+                  <Td>{owner.index}</Td>
+                  <Td
+                    fontFamily="monospace"
+                    fontSize="xs"
+                    wordBreak="break-all"
+                  >
+                    {owner.type === "address" && owner.address}
+                    {owner.type === "publicKey" && (
+                      <>
+                        <Text>x: {owner.x}</Text>
+                        <Text>y: {owner.y}</Text>
+                      </>
+                    )}
+                    {owner.type === "removed" && (
+                      <Text color="whiteAlpha.500">removed</Text>
+                    )}
+                  </Td>
+                  <Td>
+                    <HStack>
+                      <Badge
+                        colorScheme={
+                          owner.type === "address"
+                            ? "blue"
+                            : owner.type === "publicKey"
+                            ? "purple"
+                            : "gray"
+                        }
+                      >
+                        {owner.type === "publicKey" ? "passkey" : owner.type}
+                      </Badge>
+                      {owner.index === signerIndex && (
+                        <Badge colorScheme="green">signing key</Badge>
+                      )}
+                    </HStack>
+                  </Td>
+                  <Td>
+                    {owner.type !== "removed" && (
+                      <Button
+                        size="xs"
+                        colorScheme="red"
+                        onClick={() => removeOwner(owner)}
+                        isLoading={pendingAction === `remove-${owner.index}`}
+                        isDisabled={
+                          !canManage ||
+                          !!pendingAction ||
+                          activeOwnersCount <= 1
+                        }
+                      >
+                        Remove
+                      </Button>
+                    )}
+                  </Td>
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+        ) : (
+          <Text p={4} color="whiteAlpha.700">
+            Enter a deployed smart wallet address to see its owners
+          </Text>
+        )}
+      </Box>
+
+      <Box p={4} borderWidth={1} borderRadius="lg">
+        <VStack spacing={4} align="stretch">
+          <Heading size="md">Add Owner</Heading>
+          <HStack>
+            <Select
+              w="12rem"
+              value={newOwnerType}
+              onChange={(e) =>
+                setNewOwnerType(e.target.value as "address" | "publicKey")
+              }
+            >
+              <option value="address">Address</option>
+              <option value="publicKey">Passkey</option>
+            </Select>
+            <Input
+              placeholder={
+                newOwnerType === "address"
+                  ? "0x..."
+                  : "0x + 64 bytes public key (x, y)"
+              }
+              value={newOwner}
+              onChange={(e) => setNewOwner(e.target.value)}
+            />
+          </HStack>
+          {canReplay && (
+            <FormControl display="flex" alignItems="center">
+              <FormLabel htmlFor="replay-all" mb={0}>
+                Apply on all chains
+              </FormLabel>
+              <Switch
+                id="replay-all"
+                isChecked={replayAll}
+                onChange={(e) => setReplayAll(e.target.checked)}
+              />
+            </FormControl>
+          )}
+          <Button
+            colorScheme="blue"
+            onClick={addOwner}
+            isLoading={pendingAction === "add"}
+            isDisabled={!canManage || !newOwner || !!pendingAction}
+          >
+            Add Owner
+          </Button>
+          {!canManage && (
+            <Text fontSize="sm" color="whiteAlpha.700">
+              Connect this smart wallet in the Wallet Bridge to manage its
+              owners
+            </Text>
+          )}
+        </VStack>
+      </Box>
+
+      <Box p={4} borderWidth={1} borderRadius="lg">
+        <VStack spacing={4} align="stretch">
+          <HStack justify="space-between">
+            <Heading size="md">Cross-chain Sync</Heading>
+            <Button
+              size="sm"
+              onClick={fetchChainStatuses}
+              isDisabled={isLoadingChains || !isAddress(walletAddress)}
+            >
+              Refresh
+            </Button>
+          </HStack>
+          <Text fontSize="sm" color="whiteAlpha.700">
+            Owner changes signed with &quot;Apply on all chains&quot; skip the
+            chain id, and are replayed by the recovery key on every chain
+          </Text>
+          <ChainSyncTable
+            statuses={chainStatuses}
+            isLoading={isLoadingChains}
+            replayableUserOps={replayableUserOps}
+            syncingChainId={syncingChainId}
+            canSync={canReplay && !pendingAction}
+            onSync={syncChain}
+          />
+        </VStack>
+      </Box>
+
+      <Box p={4} borderWidth={1} borderRadius="lg">
+        <VStack spacing={4} align="stretch">
+          <Heading size="md">Check Owner</Heading>
+          <HStack>
+            <Input
+              placeholder="0x..."
+              value={checkAddress}
+              onChange={(e) => {
+                setCheckAddress(e.target.value);
+                setIsOwnerResult(null);
+              }}
+            />
+            <Button
+              onClick={checkIsOwner}
+              isDisabled={!isAddress(checkAddress)}
+            >
+              Check
+            </Button>
+          </HStack>
+          {isOwnerResult !== null && (
+            <Text color={isOwnerResult ? "green.300" : "red.300"}>
+              {isOwnerResult
+                ? "✅ Address is an owner"
+                : "❌ Address is not an owner"}
+            </Text>
+          )}
+        </VStack>
+      </Box>
+    </VStack>
+  );
+}
@@ -0,0 +1,122 @@
+import {
+  Address,
+  Chain,
+  PublicClient,
+  createPublicClient,
+  http,
+  parseAbi,
+} from "viem";
+import { entryPoint06Abi, entryPoint06Address } from "viem/account-abstraction";
+import type { UserOperationV06 } from "../headless-csw-connector";
+import { SmartWalletOwner, readOwners } from "./utils";
+
+// Nonce key the wallet requires for user operations without chain id validation
+export const REPLAYABLE_NONCE_KEY = BigInt(8453);
+
+export const coinbaseSmartWalletReplayAbi = parseAbi([
+  "struct UserOperation { address sender; uint256 nonce; bytes initCode; bytes callData; uint256 callGasLimit; uint256 verificationGasLimit; uint256 preVerificationGas; uint256 maxFeePerGas; uint256 maxPriorityFeePerGas; bytes paymasterAndData; bytes signature; }",
+  "function executeWithoutChainIdValidation(bytes[] calls) payable",
+  "function getUserOpHashWithoutChainId(UserOperation userOp) view returns (bytes32)",
+  "function canSkipChainIdValidation(bytes4 functionSelector) pure returns (bool)",
+]);
+
+// Full EntryPoint nonce (key and sequence) of the next replayable user operation
+export const getReplayableNonce = (client: PublicClient, address: Address) =>
+  client.readContract({
+    address: entryPoint06Address,
+    abi: entryPoint06Abi,
+    functionName: "getNonce",
+    args: [address, REPLAYABLE_NONCE_KEY],
+  });
+
+export const getReplayableSequence = (nonce: bigint) =>
+  nonce & BigInt("0xffffffffffffffff");
+
+export type ChainReplayStatus = {
+  chainId: number;
+  deployed: boolean;
+  nonce?: bigint;
+  owners?: SmartWalletOwner[];
+  error?: string;
+};
+
+export const readChainReplayStatus = async (
+  chain: Chain,
+  address: Address
+): Promise<ChainReplayStatus> => {
+  const client = createPublicClient({ chain, transport: http() });
+
+  try {
+    if (!(await client.getCode({ address }))) {
+      return { chainId: chain.id, deployed: false };
+    }
+
+    const [nonce, owners] = await Promise.all([
+      getReplayableNonce(client, address),
+      readOwners(client, address),
+    ]);
+    return { chainId: chain.id, deployed: true, nonce, owners };
+  } catch (error) {
+    console.error(`Error reading replay status on ${chain.name}`, error);
+    return {
+      chainId: chain.id,
+      deployed: false,
+      error: (error as Error).message,
+    };
+  }
+};
+
+// Operations a chain at `nonce` needs to reach `targetNonce`, undefined if
+// some of them weren't signed from this browser
+export const getMissingUserOps = (
+  userOps: UserOperationV06[],
+  nonce: bigint,
+  targetNonce: bigint
+) => {
+  const missing = userOps.filter(
+    (userOp) => userOp.nonce >= nonce && userOp.nonce < targetNonce
+  );
+  return missing.length === Number(targetNonce - nonce) ? missing : undefined;
+};
+
+const STORAGE_KEY = "replayableUserOps";
+
+const bigintFields = [
+  "nonce",
+  "callGasLimit",
+  "verificationGasLimit",
+  "preVerificationGas",
+  "maxFeePerGas",
+  "maxPriorityFeePerGas",
+] as const;
+
+// Signed replayable user operations are kept so chains that fell behind can
+// be caught up later, in nonce order
+export const loadReplayableUserOps = (address: Address): UserOperationV06[] => {
+  const stored: Record<string, Record<string, string>[]> = JSON.parse(
+    localStorage.getItem(STORAGE_KEY) ?? "{}"
+  );
+
+  return (stored[address.toLowerCase()] ?? []).map((userOp) => {
+    const parsed = { ...userOp } as Record<string, unknown>;
+    for (const field of bigintFields) parsed[field] = BigInt(userOp[field]);
+    return parsed as UserOperationV06;
+  });
+};
+
+export const saveReplayableUserOp = (userOp: UserOperationV06) => {
+  const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+
+  const userOps = loadReplayableUserOps(userOp.sender)
+    .filter((x) => x.nonce !== userOp.nonce)
+    .concat(userOp)
+    .sort((a, b) => (a.nonce < b.nonce ? -1 : 1));
+
+  stored[userOp.sender.toLowerCase()] = userOps.map((x) => {
+    const serialized = { ...x } as Record<string, unknown>;
+    for (const field of bigintFields) serialized[field] = x[field].toString();
+    return serialized;
+  });
+
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
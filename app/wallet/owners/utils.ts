@@ -0,0 +1,87 @@
+import {
+  Address,
+  Hex,
+  PublicClient,
+  getAddress,
+  parseAbi,
+  size,
+  slice,
+} from "viem";
+
+// MultiOwnable functions of the Coinbase Smart Wallet
+export const coinbaseSmartWalletOwnersAbi = parseAbi([
+  "function nextOwnerIndex() view returns (uint256)",
+  "function removedOwnersCount() view returns (uint256)",
+  "function ownerCount() view returns (uint256)",
+  "function ownerAtIndex(uint256 index) view returns (bytes)",
+  "function isOwnerAddress(address account) view returns (bool)",
+  "function isOwnerPublicKey(bytes32 x, bytes32 y) view returns (bool)",
+  "function addOwnerAddress(address owner)",
+  "function addOwnerPublicKey(bytes32 x, bytes32 y)",
+  "function removeOwnerAtIndex(uint256 index, bytes owner)",
+  "function removeLastOwner(uint256 index, bytes owner)",
+]);
+
+export type SmartWalletOwner =
+  | { index: number; type: "address"; bytes: Hex; address: Address }
+  | { index: number; type: "publicKey"; bytes: Hex; x: Hex; y: Hex }
+  | { index: number; type: "removed"; bytes: Hex };
+
+// Owners are stored as abi encoded addresses (32 bytes) or P-256 public keys (64 bytes)
+export const decodeOwner = (index: number, bytes: Hex): SmartWalletOwner => {
+  if (bytes === "0x") return { index, type: "removed", bytes };
+  if (size(bytes) === 64) {
+    return {
+      index,
+      type: "publicKey",
+      bytes,
+      x: slice(bytes, 0, 32),
+      y: slice(bytes, 32, 64),
+    };
+  }
+  return {
+    index,
+    type: "address",
+    bytes,
+    address: getAddress(slice(bytes, 12)),
+  };
+};
+
+// Reads every owner slot, including the ones left empty by removed owners
+export const readOwners = async (
+  client: PublicClient,
+  address: Address
+): Promise<SmartWalletOwner[]> => {
+  const nextOwnerIndex = await client.readContract({
+    address,
+    abi: coinbaseSmartWalletOwnersAbi,
+    functionName: "nextOwnerIndex",
+  });
+
+  const owners = await Promise.all(
+    Array.from({ length: Number(nextOwnerIndex) }, (_, i) =>
+      client.readContract({
+        address,
+        abi: coinbaseSmartWalletOwnersAbi,
+        functionName: "ownerAtIndex",
+        args: [BigInt(i)],
+      })
+    )
+  );
+
+  return owners.map((bytes, i) => decodeOwner(i, bytes));
+};
+
+// Returns the first of `candidates` (owner bytes) in the wallet's owner list
+export const findOwner = async (
+  client: PublicClient,
+  address: Address,
+  candidates: Hex[]
+): Promise<SmartWalletOwner | undefined> => {
+  const owners = await readOwners(client, address);
+  return owners.find((owner) =>
+    candidates.some(
+      (candidate) => owner.bytes.toLowerCase() === candidate.toLowerCase()
+    )
+  );
+};
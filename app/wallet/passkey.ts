@@ -0,0 +1,37 @@
+import { Bytes, Hash, Hex, P256, PublicKey, WebAuthnP256 } from "ox";
+
+export type PasskeyCredential = {
+  /** Base64url credential id */
+  id: string;
+  /** Public key (x and y), or the candidates recovered by `selectPasskey` */
+  publicKeys: Hex.Hex[];
+};
+
+// Browsers only expose a passkey's public key when it is created, so it is
+// recovered from a signature instead. ECDSA recovery gives two candidates,
+// the one owning the wallet is picked when reading its owners.
+export const selectPasskey = async (): Promise<PasskeyCredential> => {
+  const { metadata, raw, signature } = await WebAuthnP256.sign({
+    challenge: Hex.random(32),
+  });
+
+  const payload = Hash.sha256(
+    Bytes.concat(
+      Bytes.fromHex(metadata.authenticatorData),
+      Hash.sha256(Bytes.fromString(metadata.clientDataJSON))
+    )
+  );
+
+  return {
+    id: raw.id,
+    publicKeys: [0, 1].map((yParity) =>
+      PublicKey.toHex(
+        P256.recoverPublicKey({
+          payload,
+          signature: { ...signature, yParity },
+        }),
+        { includePrefix: false }
+      )
+    ),
+  };
+};
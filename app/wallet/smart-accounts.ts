@@ -0,0 +1,110 @@
+import { Address, LocalAccount, PublicClient } from "viem";
+import {
+  SmartAccount,
+  WebAuthnAccount,
+  entryPoint06Address,
+  entryPoint07Address,
+  toCoinbaseSmartAccount,
+} from "viem/account-abstraction";
+import {
+  toKernelSmartAccount,
+  toSafeSmartAccount,
+  toSimpleSmartAccount,
+} from "permissionless/accounts";
+
+export type EntryPointVersion = "0.6" | "0.7";
+
+export type SmartAccountImplementationType =
+  | "coinbaseSmartWallet"
+  | "safe"
+  | "kernel"
+  | "simple";
+
+export const smartAccountImplementations: Record<
+  SmartAccountImplementationType,
+  { name: string; entryPointVersions: EntryPointVersion[] }
+> = {
+  coinbaseSmartWallet: {
+    name: "Coinbase Smart Wallet",
+    entryPointVersions: ["0.6"],
+  },
+  safe: { name: "Safe (4337 module)", entryPointVersions: ["0.6", "0.7"] },
+  kernel: { name: "Kernel", entryPointVersions: ["0.6", "0.7"] },
+  simple: { name: "Simple Account", entryPointVersions: ["0.6", "0.7"] },
+};
+
+export const getEntryPoint = (version: EntryPointVersion) => ({
+  address: version === "0.6" ? entryPoint06Address : entryPoint07Address,
+  version,
+});
+
+// Smart account of the given implementation, signing with a single owner
+export const toHeadlessSmartAccount = async ({
+  implementation,
+  entryPointVersion,
+  client,
+  owner,
+  address,
+  ownerIndex,
+}: {
+  implementation: SmartAccountImplementationType;
+  entryPointVersion: EntryPointVersion;
+  client: PublicClient;
+  owner: LocalAccount | WebAuthnAccount;
+  address: Address;
+  /** Index of the owner key, only used by the Coinbase Smart Wallet */
+  ownerIndex?: number;
+}): Promise<SmartAccount> => {
+  if (
+    !smartAccountImplementations[implementation].entryPointVersions.includes(
+      entryPointVersion
+    )
+  ) {
+    throw new Error(
+      `${smartAccountImplementations[implementation].name} does not support EntryPoint v${entryPointVersion}`
+    );
+  }
+
+  const entryPoint = getEntryPoint(entryPointVersion);
+
+  if (implementation === "coinbaseSmartWallet") {
+    return toCoinbaseSmartAccount({
+      client,
+      owners: [owner],
+      ownerIndex,
+      address,
+    });
+  }
+
+  if (owner.type !== "local") {
+    throw new Error(
+      `Passkey owners are not supported for ${smartAccountImplementations[implementation].name} accounts`
+    );
+  }
+
+  switch (implementation) {
+    case "safe":
+      // Safes with a threshold above 1 need more signatures than the owner's
+      return toSafeSmartAccount({
+        client,
+        owners: [owner],
+        version: "1.4.1",
+        entryPoint,
+        address,
+      });
+    case "kernel":
+      return toKernelSmartAccount({
+        client,
+        owners: [owner],
+        entryPoint,
+        address,
+      });
+    case "simple":
+      return toSimpleSmartAccount({
+        client,
+        owner,
+        entryPoint,
+        address,
+      });
+  }
+};
@@ -0,0 +1,118 @@
+import { Address, Hex } from "viem";
+import {
+  EntryPointVersion,
+  SmartAccountImplementationType,
+} from "./smart-accounts";
+import { createObjectStore } from "./indexed-db";
+
+const PBKDF2_ITERATIONS = 600000;
+
+// Unlocked wallets are disconnected after this much inactivity
+export const VAULT_AUTO_LOCK_MS = 15 * 60 * 1000;
+
+// Kept in clear to list the saved wallets without the passphrase
+export type VaultWalletSettings = {
+  address: Address;
+  ownerIndex?: number;
+  implementation: SmartAccountImplementationType;
+  entryPointVersion: EntryPointVersion;
+};
+
+// Encrypted with the passphrase, bundler and paymaster URLs may hold API keys
+export type VaultSecret = {
+  ownerPrivateKey: Hex;
+  bundlerUrl?: string;
+  paymasterUrl?: string;
+};
+
+export type VaultWallet = {
+  id: string;
+  label: string;
+  createdAt: number;
+  settings: VaultWalletSettings;
+  salt: Uint8Array;
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+};
+
+const vaultStore = createObjectStore<VaultWallet>(
+  "walletVault",
+  "wallets",
+  "id"
+);
+
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+export const listVaultWallets = async () => {
+  const wallets = await vaultStore.getAll();
+  return wallets.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveVaultWallet = async ({
+  label,
+  settings,
+  secret,
+  passphrase,
+}: {
+  label: string;
+  settings: VaultWalletSettings;
+  secret: VaultSecret;
+  passphrase: string;
+}): Promise<VaultWallet> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+
+  const wallet: VaultWallet = {
+    id: crypto.randomUUID(),
+    label,
+    createdAt: Date.now(),
+    settings,
+    salt,
+    iv,
+    ciphertext: await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      await deriveKey(passphrase, salt),
+      new TextEncoder().encode(JSON.stringify(secret))
+    ),
+  };
+
+  await vaultStore.put(wallet);
+  return wallet;
+};
+
+export const unlockVaultWallet = async (
+  wallet: VaultWallet,
+  passphrase: string
+): Promise<VaultSecret> => {
+  const key = await deriveKey(passphrase, wallet.salt);
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: wallet.iv },
+      key,
+      wallet.ciphertext
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    // AES-GCM authentication fails when the passphrase is wrong
+    throw new Error("Incorrect passphrase");
+  }
+};
+
+export const deleteVaultWallet = (id: string) => vaultStore.delete(id);
@@ -23,6 +23,10 @@ import {
   useUpdateEffect,
   Link,
   Button,
+  Badge,
+  Wrap,
+  WrapItem,
+  Tooltip,
 } from "@chakra-ui/react";
 import {
   ChevronDownIcon,
@@ -53,6 +57,7 @@ import { JsonTextArea } from "@/components/JsonTextArea";
 import { DarkSelect } from "@/components/DarkSelect";
 import { CopyToClipboard } from "@/components/CopyToClipboard";
 import { decodeRecursive } from "@/lib/decoder";
+import { decodeReturnData } from "@/lib/returnDataDecoder";
 
 export const CalldataDecoderPage = ({
   headerText,
@@ -67,6 +72,7 @@ export const CalldataDecoderPage = ({
   const addressFromURL = searchParams.get("address");
   const chainIdFromURL = searchParams.get("chainId");
   const txFromURL = searchParams.get("tx");
+  const returnDataFromURL = searchParams.get("returnData");
 
   const networkOptionsIndex = chainIdFromURL
     ? networkOptions.findIndex(
@@ -78,8 +84,17 @@ export const CalldataDecoderPage = ({
     "calldata",
     parseAsString.withDefault("")
   );
+  // return or revert data, decoded in the "Return Data" tab
+  const [returnData, setReturnData] = useQueryState<string>(
+    "returnData",
+    parseAsString.withDefault("")
+  );
   // can be function calldata or abi.encode bytes
   const [result, setResult] = useState<DecodeRecursiveResult>();
+  // what the result is: a function call, its return values or an error
+  const [resultLabel, setResultLabel] = useState("function");
+  // index into the result and its alternative signatures
+  const [selectedCandidateIndex, setSelectedCandidateIndex] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [pasted, setPasted] = useState(false);
 
@@ -105,7 +120,10 @@ export const CalldataDecoderPage = ({
   const [txShowSelectNetwork, setTxShowSelectNetwork] = useState(false);
 
   useEffect(() => {
-    if (calldataFromURL && addressFromURL) {
+    if (returnDataFromURL) {
+      setSelectedTabIndex(4);
+      decodeReturn();
+    } else if (calldataFromURL && addressFromURL) {
       setSelectedTabIndex(2);
       decode({
         _address: addressFromURL,
@@ -124,6 +142,10 @@ export const CalldataDecoderPage = ({
   }, []);
 
   useUpdateEffect(() => {
+    if (selectedTabIndex !== 4) {
+      setReturnData(null);
+    }
+
     if (selectedTabIndex === 0) {
       setContractAddress(null);
       setChainId(null);
@@ -137,11 +159,13 @@ export const CalldataDecoderPage = ({
     } else if (selectedTabIndex === 3) {
       setCalldata(null);
       setContractAddress(null);
+    } else if (selectedTabIndex === 4) {
+      setFromTxInput(null);
     }
   }, [selectedTabIndex]);
 
   useEffect(() => {
-    if (selectedTabIndex === 2) {
+    if (selectedTabIndex === 2 || selectedTabIndex === 4) {
       setChainId(parseInt(selectedNetworkOption!.value.toString()));
     } else if (selectedTabIndex === 3) {
       if (txShowSelectNetwork) {
@@ -198,6 +222,8 @@ export const CalldataDecoderPage = ({
       });
       console.log({ DECODED_RESULT: res });
       setResult(res);
+      setResultLabel("function");
+      setSelectedCandidateIndex(0);
 
       if (res !== null) {
         toast({
@@ -223,6 +249,45 @@ export const CalldataDecoderPage = ({
     }
   };
 
+  const decodeReturn = async () => {
+    setIsLoading(true);
+    try {
+      // the address' ABI decodes custom errors and, with the calldata, return values
+      const res = await decodeReturnData({
+        data: startHexWith0x(returnData),
+        calldata: calldata ? startHexWith0x(calldata) : undefined,
+        address: contractAddress || undefined,
+        chainId: contractAddress ? chainId : undefined,
+      });
+      console.log({ DECODED_RETURN_DATA: res });
+      setResult(res?.decoded ?? null);
+      setResultLabel(res?.kind === "return" ? "returns" : "error");
+      setSelectedCandidateIndex(0);
+
+      if (res !== null) {
+        toast({
+          title: "Successfully Decoded",
+          status: "success",
+          isClosable: true,
+          duration: 1000,
+        });
+      } else {
+        throw new Error("Unable to decode this return data");
+      }
+    } catch (e: any) {
+      console.log("Error Decoding");
+      toast({
+        title: "Error",
+        description: e.message,
+        status: "error",
+        isClosable: true,
+        duration: 4000,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const decodeFromTx = async (_fromTxInput?: string, _chainId?: number) => {
     setIsLoading(true);
 
@@ -486,18 +551,39 @@ export const CalldataDecoderPage = ({
         return <FromAddressBody />;
       case 3:
         return <FromTxBody />;
+      case 4:
+        // inline so the input keeps its focus while typing
+        return (
+          <>
+            <Tr>
+              <Label>Return Data</Label>
+              <Td>
+                <InputField
+                  placeholder="return or revert data"
+                  value={returnData}
+                  onChange={(e) => setReturnData(e.target.value)}
+                />
+              </Td>
+            </Tr>
+            <FromAddressBody />
+          </>
+        );
       default:
         return null;
     }
   };
 
+  // best ranked signature first, then the other selector matches
+  const candidates = result ? [result, ...(result.alternatives ?? [])] : [];
+  const shownResult = candidates[selectedCandidateIndex] ?? result;
+
   return (
     <Box p={10} minH={"30rem"} w="full" minW="40rem">
       <Heading color={"custom.pale"} fontSize={"4xl"} textAlign={"center"}>
         {headerText ?? "Universal Calldata Decoder"}
       </Heading>
       <TabsSelector
-        tabs={["No ABI", "from ABI", "from Address", "from Tx"]}
+        tabs={["No ABI", "from ABI", "from Address", "from Tx", "Return Data"]}
         selectedTabIndex={selectedTabIndex}
         setSelectedTabIndex={setSelectedTabIndex}
       />
@@ -505,7 +591,9 @@ export const CalldataDecoderPage = ({
         <Tbody>
           {selectedTabIndex !== 3 && (
             <Tr>
-              <Label>Calldata</Label>
+              <Label>
+                {selectedTabIndex === 4 ? "Calldata (optional)" : "Calldata"}
+              </Label>
               <Td>
                 <InputField
                   autoFocus
@@ -537,6 +625,8 @@ export const CalldataDecoderPage = ({
                           return decode({});
                         case 3:
                           return decodeFromTx();
+                        case 4:
+                          return decodeReturn();
                       }
                     }}
                     isLoading={isLoading}
@@ -551,20 +641,62 @@ export const CalldataDecoderPage = ({
       </Table>
       {result && (
         <Box minW={"80%"}>
-          {result.functionName && result.functionName !== "__abi_decoded__" ? (
+          {candidates.length > 1 && (
+            <Box mb={4}>
+              <Text fontSize={"xs"} color={"whiteAlpha.600"}>
+                {candidates.length} signatures match this selector
+              </Text>
+              <Wrap mt={1}>
+                {candidates.map((candidate, i) => (
+                  <WrapItem key={i}>
+                    <Tooltip
+                      label={`listed by ${
+                        candidate.candidate?.sourceCount ?? 0
+                      } source(s): ${candidate.candidate?.sources.join(", ")}`}
+                      placement="top"
+                    >
+                      <Button
+                        size={"sm"}
+                        variant={
+                          i === selectedCandidateIndex ? "solid" : "outline"
+                        }
+                        onClick={() => setSelectedCandidateIndex(i)}
+                      >
+                        <Text fontFamily={"mono"} fontSize={"xs"}>
+                          {candidate.signature}
+                        </Text>
+                        {candidate.candidate?.roundTrip && (
+                          <Badge ml={2} colorScheme={"green"}>
+                            exact
+                          </Badge>
+                        )}
+                        {candidate.candidate?.verified && (
+                          <Badge ml={2} colorScheme={"blue"}>
+                            verified
+                          </Badge>
+                        )}
+                      </Button>
+                    </Tooltip>
+                  </WrapItem>
+                ))}
+              </Wrap>
+            </Box>
+          )}
+          {shownResult.functionName &&
+          shownResult.functionName !== "__abi_decoded__" ? (
             <HStack>
               <Box>
                 <Box fontSize={"xs"} color={"whiteAlpha.600"}>
-                  function
+                  {resultLabel}
                 </Box>
-                <Box>{result.functionName}</Box>
+                <Box>{shownResult.functionName}</Box>
               </Box>
               <Spacer />
               <CopyToClipboard
                 textToCopy={JSON.stringify(
                   {
-                    function: result.signature,
-                    params: JSON.parse(stringify(result.rawArgs)),
+                    function: shownResult.signature,
+                    params: JSON.parse(stringify(shownResult.rawArgs)),
                   },
                   undefined,
                   2
@@ -581,7 +713,7 @@ export const CalldataDecoderPage = ({
             bg={"whiteAlpha.50"}
             rounded={"lg"}
           >
-            {result.args.map((arg, i: number) => {
+            {shownResult.args.map((arg, i: number) => {
               return renderParams(i, arg, chainId);
             })}
           </Stack>
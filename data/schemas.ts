@@ -1,13 +1,21 @@
 import { z } from "zod";
 
-export const calldataDecoderRequestSchema = z.object({
-  calldata: z.string(),
-  address: z
-    .string()
-    .length(42, "Address must be 42 characters long")
-    .optional(),
-  chainId: z.number().int().positive().optional(),
-});
+export const calldataDecoderRequestSchema = z
+  .object({
+    // "returnData" decodes `data` as return or revert data, `calldata` is then optional
+    mode: z.enum(["calldata", "returnData"]).optional(),
+    calldata: z.string().optional(),
+    data: z.string().optional(),
+    address: z
+      .string()
+      .length(42, "Address must be 42 characters long")
+      .optional(),
+    chainId: z.number().int().positive().optional(),
+  })
+  .refine(
+    (body) => (body.mode === "returnData" ? !!body.data : !!body.calldata),
+    "calldata is required, or data in returnData mode"
+  );
 
 export const calldataDecoderRecursiveRequestSchema = z.object({
   calldata: z.string().optional(),
@@ -77,6 +85,19 @@ export const fetchFunctionInterfaceOpenApiSchema = z.object({
         )
         .optional()
     ),
+    // only returned for error lookups
+    error: z
+      .record(
+        z
+          .array(
+            z.object({
+              name: z.string(),
+              filtered: z.boolean(),
+            })
+          )
+          .optional()
+      )
+      .optional(),
   }),
 });
 
@@ -0,0 +1,149 @@
+import { SignatureCandidate } from "@/types";
+import { Interface } from "ethers";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// @/utils pulls in browser only dependencies, only these are used
+vi.mock("@/utils", () => ({
+  startHexWith0x: (value?: string) =>
+    value ? (value.startsWith("0x") ? value : `0x${value}`) : "0x",
+  fetchContractAbi: vi.fn(),
+}));
+
+import {
+  decodeWithSelector,
+  fetchFunctionSignatures,
+  rankDecodedTransactions,
+} from "./decoder";
+
+const recipient = "0x1111111111111111111111111111111111111111";
+
+const candidate = (
+  signature: string,
+  fields: Partial<SignatureCandidate> = {}
+): SignatureCandidate => ({
+  signature,
+  sources: ["4byte"],
+  verified: false,
+  sourceCount: 1,
+  ...fields,
+});
+
+// openchain and 4bytes responses for a selector
+const stubSignatureDatabases = (
+  selector: string,
+  openchain: { name: string; filtered: boolean }[],
+  fourByte: string[]
+) =>
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: URL | string) => ({
+      json: async () =>
+        url.toString().includes("openchain")
+          ? {
+              ok: true,
+              result: { function: { [selector]: openchain }, event: {} },
+            }
+          : {
+              count: fourByte.length,
+              // newest first, like the api
+              results: fourByte.map((text_signature, index) => ({
+                id: fourByte.length - index,
+                created_at: "",
+                text_signature,
+                hex_signature: selector,
+              })),
+            },
+    }))
+  );
+
+describe("rankDecodedTransactions", () => {
+  it("ranks round trips, then verified, then signatures in both sources", () => {
+    const ranked = rankDecodedTransactions([
+      { candidate: candidate("both()", { sourceCount: 2 }) },
+      { candidate: candidate("verified()", { verified: true }) },
+      { candidate: candidate("exact()", { roundTrip: true }) },
+      { candidate: candidate("first()") },
+      { candidate: candidate("second()") },
+    ]);
+
+    expect(ranked.map((x) => x.candidate.signature)).toEqual([
+      "exact()",
+      "verified()",
+      "both()",
+      "first()",
+      "second()",
+    ]);
+  });
+
+  it("ranks the earliest 4bytes registration first", () => {
+    const ranked = rankDecodedTransactions([
+      { candidate: candidate("unlisted()") },
+      { candidate: candidate("newer()", { fourByteId: 31 }) },
+      { candidate: candidate("older()", { fourByteId: 7 }) },
+    ]);
+
+    expect(ranked.map((x) => x.candidate.signature)).toEqual([
+      "older()",
+      "newer()",
+      "unlisted()",
+    ]);
+  });
+});
+
+describe("fetchFunctionSignatures", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("merges both databases, oldest 4bytes entries first", async () => {
+    stubSignatureDatabases(
+      "0xa9059cbb",
+      [{ name: "transfer(address,uint256)", filtered: false }],
+      ["many_msg_babbage(bytes1)", "transfer(address,uint256)"]
+    );
+
+    expect(await fetchFunctionSignatures({ selector: "0xa9059cbb" })).toEqual([
+      {
+        signature: "transfer(address,uint256)",
+        sources: ["openchain", "4byte"],
+        verified: true,
+        sourceCount: 2,
+        fourByteId: 1,
+      },
+      {
+        signature: "many_msg_babbage(bytes1)",
+        sources: ["4byte"],
+        verified: false,
+        sourceCount: 1,
+        fourByteId: 2,
+      },
+    ]);
+  });
+});
+
+describe("decodeWithSelector", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps colliding signatures as ranked alternatives", async () => {
+    // many_msg_babbage(bytes1) shares transfer's selector and decodes any
+    // calldata, but only transfer re-encodes to the same bytes
+    stubSignatureDatabases(
+      "0xa9059cbb",
+      [],
+      ["transfer(address,uint256)", "many_msg_babbage(bytes1)"]
+    );
+    const calldata = new Interface([
+      "function transfer(address to, uint256 amount)",
+    ]).encodeFunctionData("transfer", [recipient, BigInt(1)]);
+
+    const result = await decodeWithSelector({ calldata });
+
+    expect(result.signature).toBe("transfer(address,uint256)");
+    expect(result.candidate.roundTrip).toBe(true);
+    expect(
+      result.alternatives.map((x: { signature: string }) => x.signature)
+    ).toEqual(["many_msg_babbage(bytes1)"]);
+  });
+});
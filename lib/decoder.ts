@@ -5,14 +5,27 @@ import {
   fetchFunctionInterfaceOpenApiSchema,
 } from "@/data/schemas";
 import {
+  Arg,
   DecodeArrayParamResult,
   DecodeBytesParamResult,
   DecodeParamTypesResult,
   DecodeRecursiveResult,
   DecodeTupleParamResult,
   ParsedTransaction,
+  SignatureCandidate,
 } from "@/types";
 import { fetchContractAbi, startHexWith0x } from "@/utils";
+import { createDecoderRegistry } from "./decoderRegistry";
+import { MulticallCall, MulticallCalls, getMulticallCalls } from "./multicall";
+import {
+  UniversalRouterInputDefinition,
+  decodeUniversalRouterCommands,
+  decodeUniversalRouterInput,
+  decodeUniversalRouterPath,
+  isUniversalRouterExecute,
+  parseUniversalRouterCommands,
+  parseV4Actions,
+} from "./universalRouter";
 import { guessAbiEncodedData, guessFragment } from "@openchainxyz/abi-guesser";
 import {
   AbiCoder,
@@ -58,58 +71,43 @@ export async function decodeWithAddress({
   }
 }
 
+export const decoderRegistry = createDecoderRegistry();
+
+// protocol specific decoders can be added without touching the fallbacks below
+export const registerDecoder = decoderRegistry.register;
+
 export async function decodeWithSelector({
   calldata,
 }: {
   calldata: string;
 }): Promise<TransactionDescription | any | null> {
-  try {
-    return await _decodeWithSelector(calldata);
-  } catch {
-    try {
-      return decodeSafeMultiSendTransactionsParam(calldata);
-    } catch {
-      try {
-        return decodeUniversalRouterPath(calldata);
-      } catch {
-        try {
-          return decodeABIEncodedData(calldata);
-        } catch {
-          try {
-            return decodeUniversalRouterCommands(calldata);
-          } catch {
-            try {
-              return decodeByGuessingFunctionFragment(calldata);
-            } catch {
-              return null;
-            }
-          }
-        }
-      }
-    }
-  }
+  return decoderRegistry.decode(calldata);
 }
 
 const _decodeWithSelector = async (calldata: string) => {
   const selector = calldata.slice(0, 10);
   console.log(`Decoding calldata with selector ${selector}`);
   try {
-    // tries to find function signature from openchain and 4bytes
-    const fnInterface = await fetchFunctionInterface({ selector });
-    if (!fnInterface) {
+    // finds every function signature from openchain and 4bytes
+    const candidates = await fetchFunctionSignatures({ selector });
+    if (candidates.length === 0) {
       throw new Error("");
     }
     // decodes calldata with all possible function signatures
-    const decodedTransactions = decodeAllPossibilities({
-      functionSignatures: [fnInterface],
-      calldata,
-    });
+    const decodedTransactions = rankDecodedTransactions(
+      decodeAllPossibilities({
+        candidates,
+        calldata,
+      })
+    );
 
     if (decodedTransactions.length === 0) {
       throw new Error("Failed to decode calldata with function signature");
     }
 
-    const result = decodedTransactions[0];
+    // selector collisions are common, the other matches are kept as alternatives
+    const [result, ...alternatives] = decodedTransactions;
+    result.alternatives = alternatives;
     console.log({ _decodeWithSelector: result });
     return result;
   } catch (error) {
@@ -340,169 +338,45 @@ const decodeABIEncodedData = (calldata: string) => {
   }
 };
 
-const decodeUniversalRouterPath = (calldata: string) => {
-  try {
-    // remove initial "0x"
-    const path = calldata.slice(2);
-
-    const tokenAEnd = 20 * 2; // address
-    const tokenA = "0x" + path.slice(0, tokenAEnd);
-
-    const feeEnd = tokenAEnd + 3 * 2; // uint24
-    const fee = hexToBigInt(
-      startHexWith0x(path.slice(tokenAEnd, feeEnd))
-    ).toString();
-
-    const tokenBEnd = feeEnd + 20 * 2; // address
-    const tokenB = "0x" + path.slice(feeEnd, tokenBEnd);
-
-    if (tokenBEnd !== path.length) {
-      throw new Error("Failed to decode calldata as UniversalRouter path");
-    }
-
-    const result = {
-      name: "",
-      args: new Result(tokenA, fee, tokenB),
-      signature: "path(address,uint24,address)",
-      selector: "",
-      fragment: {
-        name: "path",
-        type: "function",
-        stateMutability: "nonpayable",
-        inputs: [
-          {
-            name: "tokenA",
-            type: "address",
-            indexed: null,
-            components: null,
-            arrayLength: null,
-            arrayChildren: null,
-            baseType: "address",
-            _isParamType: true,
-          },
-          {
-            name: "fee",
-            type: "uint24",
-            indexed: null,
-            components: null,
-            arrayLength: null,
-            arrayChildren: null,
-            baseType: "uint24",
-            _isParamType: true,
-          },
-          {
-            name: "tokenB",
-            type: "address",
-            indexed: null,
-            components: null,
-            arrayLength: null,
-            arrayChildren: null,
-            baseType: "address",
-            _isParamType: true,
-          },
-        ],
-        outputs: [],
-      },
-    };
-    console.log({ decodeUniversalRouterPath: result });
-    return result;
-  } catch (error) {
-    console.error(error);
-    throw new Error(`Failed to decode calldata as UniversalRouter path`);
-  }
-};
-
-const decodeUniversalRouterCommands = (calldata: string) => {
-  const commandByteToString: { [command: string]: string } = {
-    "00": "V3_SWAP_EXACT_IN",
-    "01": "V3_SWAP_EXACT_OUT",
-    "02": "PERMIT2_TRANSFER_FROM",
-    "03": "PERMIT2_PERMIT_BATCH",
-    "04": "SWEEP",
-    "05": "TRANSFER",
-    "06": "PAY_PORTION",
-    "08": "V2_SWAP_EXACT_IN",
-    "09": "V2_SWAP_EXACT_OUT",
-    "0a": "PERMIT2_PERMIT",
-    "0b": "WRAP_ETH",
-    "0c": "UNWRAP_WETH",
-    "0d": "PERMIT2_TRANSFER_FROM_BATCH",
-    "0e": "BALANCE_CHECK_ERC20",
-    "10": "SEAPORT_V1_5",
-    "11": "LOOKS_RARE_V2",
-    "12": "NFTX",
-    "13": "CRYPTOPUNKS",
-    "15": "OWNER_CHECK_721",
-    "16": "OWNER_CHECK_1155",
-    "17": "SWEEP_ERC721",
-    "18": "X2Y2_721",
-    "19": "SUDOSWAP",
-    "1a": "NFT20",
-    "1b": "X2Y2_1155",
-    "1c": "FOUNDATION",
-    "1d": "SWEEP_ERC1155",
-    "1e": "ELEMENT_MARKET",
-    "20": "SEAPORT_V1_4",
-    "21": "EXECUTE_SUB_PLAN",
-    "22": "APPROVE_ERC20",
-  };
-
-  try {
-    // remove initial "0x"
-    const commandsBytes = calldata.slice(2);
-
-    let commands: string[] = [];
-    for (let i = 0; i < commandsBytes.length; i += 2) {
-      const command = commandByteToString[commandsBytes.slice(i, i + 2)];
-      if (command === undefined) {
-        throw new Error(
-          "Failed to decode calldata as UniversalRouter commands"
-        );
-      }
-      commands.push(command);
-    }
-
-    const result = {
-      name: "",
-      args: new Result(commands),
-      signature: "commands(string[])",
-      selector: "",
-      value: BigInt(0),
-      fragment: {
-        name: "",
-        type: "function",
-        stateMutability: "nonpayable",
-        inputs: [
-          {
-            name: "commands",
-            type: "string[]",
-            indexed: null,
-            components: null,
-            arrayLength: -1,
-            arrayChildren: {
-              name: null,
-              type: "string",
-              indexed: null,
-              components: null,
-              arrayLength: null,
-              arrayChildren: null,
-              baseType: "string",
-              _isParamType: true,
-            },
-            baseType: "array",
-            _isParamType: true,
-          },
-        ],
-        outputs: [],
-      },
-    };
-    console.log({ decodeUniversalRouterCommands: result });
-    return result;
-  } catch (error) {
-    console.error(error);
-    throw new Error(`Failed to decode calldata as UniversalRouter path`);
-  }
-};
+// built-in decoders, from the most to the least specific
+registerDecoder({
+  name: "selector",
+  priority: 100,
+  canDecode: (calldata) => calldata.length >= 10,
+  decode: _decodeWithSelector,
+});
+registerDecoder({
+  name: "safe-multisend",
+  priority: 90,
+  canDecode: (calldata) => calldata.length > 2,
+  decode: decodeSafeMultiSendTransactionsParam,
+});
+registerDecoder({
+  name: "universal-router-path",
+  priority: 80,
+  // tokenA (20 bytes) + fee (3 bytes) + tokenB (20 bytes) for every hop
+  canDecode: (calldata) =>
+    calldata.length > 42 && (calldata.length - 42) % 46 === 0,
+  decode: decodeUniversalRouterPath,
+});
+registerDecoder({
+  name: "abi-encoded",
+  priority: 70,
+  canDecode: (calldata) => calldata.length > 2,
+  decode: decodeABIEncodedData,
+});
+registerDecoder({
+  name: "universal-router-commands",
+  priority: 60,
+  canDecode: (calldata) => calldata.length > 2 && calldata.length % 2 === 0,
+  decode: decodeUniversalRouterCommands,
+});
+registerDecoder({
+  name: "guessed-fragment",
+  priority: 50,
+  canDecode: (calldata) => calldata.length >= 10,
+  decode: decodeByGuessingFunctionFragment,
+});
 
 export async function fetchFunctionInterface({
   selector,
@@ -525,21 +399,105 @@ export async function fetchFunctionInterface({
   return result;
 }
 
-async function fetchFunctionFromOpenchain({ selector }: { selector: string }) {
+// All known signatures for the selector, openchain's unfiltered ones are verified
+export async function fetchFunctionSignatures({
+  selector,
+}: {
+  selector: string;
+}): Promise<SignatureCandidate[]> {
+  const [openChainData, fourByteData] = await Promise.all([
+    fetchFunctionFromOpenchain({ selector, includeFiltered: true }),
+    fetchFunctionFrom4Bytes({ selector }),
+  ]);
+
+  const candidates: SignatureCandidate[] = [];
+  openChainData?.forEach((x) =>
+    addSignatureCandidate(candidates, x.name, "openchain", !x.filtered)
+  );
+  // 4bytes lists the newest first, the older entries are the established ones
+  fourByteData
+    ?.slice()
+    .reverse()
+    .forEach((x) =>
+      addSignatureCandidate(candidates, x.text_signature, "4byte", false, x.id)
+    );
+
+  return candidates;
+}
+
+// Custom errors can be missing from the function signatures, openchain also
+// indexes them on their own
+export async function fetchErrorSignatures({
+  selector,
+}: {
+  selector: string;
+}): Promise<SignatureCandidate[]> {
+  const [openChainData, candidates] = await Promise.all([
+    fetchFunctionFromOpenchain({
+      selector,
+      includeFiltered: true,
+      namespace: "error",
+    }),
+    fetchFunctionSignatures({ selector }),
+  ]);
+
+  openChainData?.forEach((x) =>
+    addSignatureCandidate(candidates, x.name, "openchain", !x.filtered)
+  );
+
+  return candidates;
+}
+
+const addSignatureCandidate = (
+  candidates: SignatureCandidate[],
+  signature: string,
+  source: SignatureCandidate["sources"][number],
+  verified: boolean,
+  fourByteId?: number
+) => {
+  const existing = candidates.find((x) => x.signature === signature);
+  if (existing) {
+    if (!existing.sources.includes(source)) existing.sources.push(source);
+    existing.verified ||= verified;
+    existing.sourceCount = existing.sources.length;
+    existing.fourByteId ??= fourByteId;
+  } else {
+    candidates.push({
+      signature,
+      sources: [source],
+      verified,
+      sourceCount: 1,
+      fourByteId,
+    });
+  }
+};
+
+async function fetchFunctionFromOpenchain({
+  selector,
+  includeFiltered = false,
+  namespace = "function",
+}: {
+  selector: string;
+  includeFiltered?: boolean;
+  namespace?: "function" | "error";
+}) {
   try {
     const requestUrl = new URL(
       "https://api.openchain.xyz/signature-database/v1/lookup"
     );
-    requestUrl.searchParams.append("function", selector);
+    requestUrl.searchParams.append(namespace, selector);
+    if (includeFiltered) {
+      requestUrl.searchParams.append("filter", "false");
+    }
     const response = await fetch(requestUrl);
     const data = await response.json();
     const parsedData = fetchFunctionInterfaceOpenApiSchema.parse(data);
     if (!parsedData.ok) {
       throw new Error(
-        `Openchain API failed to find function interface with selector ${selector}`
+        `Openchain API failed to find ${namespace} interface with selector ${selector}`
       );
     }
-    return parsedData.result.function[selector];
+    return parsedData.result[namespace]?.[selector];
   } catch (error) {
     console.error(error);
     return null;
@@ -568,21 +526,30 @@ async function fetchFunctionFrom4Bytes({ selector }: { selector: string }) {
 }
 
 function decodeAllPossibilities({
-  functionSignatures,
+  candidates,
   calldata,
 }: {
-  functionSignatures: string[];
+  candidates: SignatureCandidate[];
   calldata: string;
 }) {
-  const results: TransactionDescription[] = [];
-  for (const signature of functionSignatures) {
+  const results: ParsedTransaction[] = [];
+  for (const candidate of candidates) {
+    const { signature } = candidate;
     console.log(`Decoding calldata with signature ${signature}`);
     try {
-      const parsedTransaction = decodeWithABI({
-        abi: [`function ${signature}`],
-        calldata,
-      });
+      const abiInterface = new Interface([`function ${signature}`]);
+      const parsedTransaction: ParsedTransaction | null =
+        abiInterface.parseTransaction({ data: calldata });
       if (parsedTransaction) {
+        // decoding ignores trailing or non-canonical bytes, re-encoding doesn't
+        const reencoded = abiInterface.encodeFunctionData(
+          parsedTransaction.fragment,
+          parsedTransaction.args
+        );
+        parsedTransaction.candidate = {
+          ...candidate,
+          roundTrip: reencoded.toLowerCase() === calldata.toLowerCase(),
+        };
         results.push(parsedTransaction);
       }
     } catch (error) {
@@ -595,6 +562,28 @@ function decodeAllPossibilities({
   return results;
 }
 
+// Exact re-encodings first, then verified signatures, then the ones listed by
+// both sources, then the earliest registered on 4byte
+export const rankDecodedTransactions = <
+  T extends { candidate?: SignatureCandidate }
+>(
+  transactions: T[]
+) =>
+  transactions
+    .map((transaction, index) => ({ transaction, index }))
+    .sort((a, b) => {
+      const x = a.transaction.candidate!;
+      const y = b.transaction.candidate!;
+      return (
+        Number(!!y.roundTrip) - Number(!!x.roundTrip) ||
+        Number(y.verified) - Number(x.verified) ||
+        y.sourceCount - x.sourceCount ||
+        (x.fourByteId ?? Infinity) - (y.fourByteId ?? Infinity) ||
+        a.index - b.index
+      );
+    })
+    .map(({ transaction }) => transaction);
+
 export function decodeWithABI({
   abi,
   calldata,
@@ -633,125 +622,432 @@ export async function decodeRecursive({
 
   console.log({ parsedTransaction });
 
+  if (!parsedTransaction) {
+    return null;
+  }
+
+  const decoded = await decodeParsedTransaction({
+    parsedTransaction,
+    address,
+    chainId,
+    abi,
+  });
+
+  if (!parsedTransaction.candidate) {
+    return decoded;
+  }
+
+  // decoded by selector, the other matching signatures are decoded the same way
+  return {
+    ...decoded,
+    candidate: parsedTransaction.candidate,
+    alternatives: await Promise.all(
+      (parsedTransaction.alternatives ?? []).map(async (alternative) => ({
+        ...(await decodeParsedTransaction({
+          parsedTransaction: alternative,
+          address,
+          chainId,
+          abi,
+        })),
+        candidate: alternative.candidate,
+      }))
+    ),
+  };
+}
+
+const decodeParsedTransaction = async ({
+  parsedTransaction,
+  address,
+  chainId,
+  abi,
+}: {
+  parsedTransaction: ParsedTransaction;
+  address?: string;
+  chainId?: number;
+  abi?: any;
+}): Promise<NonNullable<DecodeRecursiveResult>> => {
+  // Universal Router commands are decoded as steps, each with its own input
+  if (isUniversalRouterExecute(parsedTransaction)) {
+    const decoded = await decodeUniversalRouterExecute({
+      parsedTransaction,
+      chainId,
+    });
+    if (decoded) {
+      return decoded;
+    }
+  }
+
+  // every inner call is decoded against its own target
+  const multicall = getMulticallCalls(parsedTransaction, address);
+  if (multicall) {
+    return await decodeMulticall({ parsedTransaction, multicall, chainId });
+  }
+
   // separate decoding for SafeMultiSend, using the `to` address to decode individual the calldatas
-  if (parsedTransaction) {
-    if (parsedTransaction.txType === "safeMultiSend") {
-      return {
-        functionName: parsedTransaction.fragment.name,
-        signature: parsedTransaction.signature,
-        rawArgs: parsedTransaction.args,
-        args: await Promise.all(
-          parsedTransaction.args[0].map(async (tx: string[], i: number) => {
-            const operation = tx[0];
-            const to = tx[1];
-            const value = tx[2];
-            const calldata = tx[4];
-
-            const operationIdToName: { [key: number]: string } = {
-              0: "CALL",
-              1: "DELEGATECALL",
-              2: "CREATE",
-            };
-
-            // encode to and calldata into new calldata
-            const encodedAbi = [
-              {
-                name: "tx",
-                type: "function",
-                stateMutability: "nonpayable",
-                inputs: [
-                  {
-                    name: "OperationType",
-                    type: "string",
-                  },
-                  {
-                    name: "to",
-                    type: "address",
-                  },
-                  {
-                    name: "value",
-                    type: "uint256",
-                  },
-                  {
-                    name: "calldata",
-                    type: "bytes",
-                  },
-                ],
-                outputs: [],
-              },
-            ] as const;
-            const encodedCalldata = await encodeFunctionData({
-              abi: encodedAbi,
-              functionName: "tx",
-              args: [
-                operationIdToName[Number(operation)],
-                to as Hex,
-                BigInt(value),
-                calldata as Hex,
-              ],
-            });
+  if (parsedTransaction.txType === "safeMultiSend") {
+    return {
+      functionName: parsedTransaction.fragment.name,
+      signature: parsedTransaction.signature,
+      rawArgs: parsedTransaction.args,
+      args: await Promise.all(
+        parsedTransaction.args[0].map(async (tx: string[], i: number) => {
+          const operation = tx[0];
+          const to = tx[1];
+          const value = tx[2];
+          const calldata = tx[4];
 
-            const fragment = FunctionFragment.from({
+          const operationIdToName: { [key: number]: string } = {
+            0: "CALL",
+            1: "DELEGATECALL",
+            2: "CREATE",
+          };
+
+          // encode to and calldata into new calldata
+          const encodedAbi = [
+            {
               name: "tx",
               type: "function",
               stateMutability: "nonpayable",
               inputs: [
                 {
-                  name: "encodedCalldata",
+                  name: "OperationType",
+                  type: "string",
+                },
+                {
+                  name: "to",
+                  type: "address",
+                },
+                {
+                  name: "value",
+                  type: "uint256",
+                },
+                {
+                  name: "calldata",
                   type: "bytes",
                 },
               ],
               outputs: [],
-            });
-
-            return {
-              name: `tx #${i}`,
-              baseType: "bytes",
-              type: "bytes",
-              rawValue: `${to}, ${value}, ${calldata}`,
-              value: await decodeParamTypes({
-                input: fragment.inputs[0],
-                value: encodedCalldata,
-                address: to,
-                chainId,
-                encodedAbi,
-              }),
-            };
-          })
-        ),
-      };
-    } else {
+            },
+          ] as const;
+          const encodedCalldata = await encodeFunctionData({
+            abi: encodedAbi,
+            functionName: "tx",
+            args: [
+              operationIdToName[Number(operation)],
+              to as Hex,
+              BigInt(value),
+              calldata as Hex,
+            ],
+          });
+
+          const fragment = FunctionFragment.from({
+            name: "tx",
+            type: "function",
+            stateMutability: "nonpayable",
+            inputs: [
+              {
+                name: "encodedCalldata",
+                type: "bytes",
+              },
+            ],
+            outputs: [],
+          });
+
+          return {
+            name: `tx #${i}`,
+            baseType: "bytes",
+            type: "bytes",
+            rawValue: `${to}, ${value}, ${calldata}`,
+            value: await decodeParamTypes({
+              input: fragment.inputs[0],
+              value: encodedCalldata,
+              address: to,
+              chainId,
+              encodedAbi,
+            }),
+          };
+        })
+      ),
+    };
+  } else {
+    return {
+      functionName: parsedTransaction.fragment.name,
+      signature: parsedTransaction.signature,
+      rawArgs: parsedTransaction.args,
+      args: await Promise.all(
+        parsedTransaction.fragment.inputs.map(async (input, i) => {
+          const value = parsedTransaction!.args[i];
+
+          return {
+            name: input.name,
+            baseType: input.baseType,
+            type: input.type,
+            rawValue: value,
+            value: await decodeParamTypes({
+              input,
+              value,
+              address,
+              chainId,
+              abi,
+            }),
+          };
+        })
+      ),
+    };
+  }
+};
+
+const decodeMulticall = async ({
+  parsedTransaction,
+  multicall,
+  chainId,
+}: {
+  parsedTransaction: ParsedTransaction;
+  multicall: MulticallCalls;
+  chainId?: number;
+}): Promise<NonNullable<DecodeRecursiveResult>> => {
+  const args = await Promise.all(
+    parsedTransaction.fragment.inputs.map(async (input, i): Promise<Arg[]> => {
+      if (i === multicall.index) {
+        return await Promise.all(
+          multicall.calls.map((call, j) =>
+            decodeMulticallCall({ call, i: j, chainId })
+          )
+        );
+      }
+
+      const value = parsedTransaction.args[i];
+      return [
+        {
+          name: input.name,
+          baseType: input.baseType,
+          type: input.type,
+          rawValue: value,
+          value: await decodeParamTypes({ input, value, chainId }),
+        },
+      ];
+    })
+  );
+
+  return {
+    functionName: parsedTransaction.fragment.name,
+    signature: parsedTransaction.signature,
+    rawArgs: parsedTransaction.args,
+    args: args.flat(),
+  };
+};
+
+const decodeMulticallCall = async ({
+  call,
+  i,
+  chainId,
+}: {
+  call: MulticallCall;
+  i: number;
+  chainId?: number;
+}): Promise<Arg> => {
+  const components: [ParamType, any][] = [];
+  if (call.target !== undefined) {
+    components.push([ParamType.from("address target"), call.target]);
+  }
+  if (call.allowFailure !== undefined) {
+    components.push([ParamType.from("bool allowFailure"), call.allowFailure]);
+  }
+  if (call.value !== undefined) {
+    components.push([ParamType.from("uint256 value"), call.value]);
+  }
+  components.push([ParamType.from("bytes callData"), call.callData]);
+
+  return {
+    name: `call #${i}${call.allowFailure ? " (allow failure)" : ""}`,
+    baseType: "tuple",
+    type: `tuple(${components.map(([param]) => param.type).join(",")})`,
+    rawValue: components.map(([, value]) => value),
+    value: await Promise.all(
+      components.map(async ([param, value]) => ({
+        name: param.name,
+        baseType: param.baseType,
+        type: param.type,
+        rawValue: value,
+        // decoded with the target's verified ABI when the chain is known
+        value: await decodeParamTypes({
+          input: param,
+          value,
+          address: call.target,
+          chainId,
+        }),
+      }))
+    ),
+  };
+};
+
+const decodeUniversalRouterExecute = async ({
+  parsedTransaction,
+  chainId,
+}: {
+  parsedTransaction: ParsedTransaction;
+  chainId?: number;
+}): Promise<DecodeRecursiveResult> => {
+  const [commands, inputs] = parsedTransaction.args;
+  try {
+    const steps = await decodeUniversalRouterSteps({
+      steps: parseUniversalRouterCommands(commands),
+      inputs,
+      chainId,
+    });
+    // optional deadline
+    const deadline = parsedTransaction.fragment.inputs[2];
+    if (deadline) {
+      steps.push({
+        name: deadline.name,
+        baseType: deadline.baseType,
+        type: deadline.type,
+        rawValue: parsedTransaction.args[2],
+        value: await decodeParamTypes({
+          input: deadline,
+          value: parsedTransaction.args[2],
+        }),
+      });
+    }
+
+    return {
+      functionName: parsedTransaction.fragment.name,
+      signature: parsedTransaction.signature,
+      rawArgs: parsedTransaction.args,
+      args: steps,
+    };
+  } catch (error) {
+    console.error(error);
+    return null;
+  }
+};
+
+const decodeUniversalRouterSteps = async ({
+  steps,
+  inputs,
+  chainId,
+}: {
+  steps: {
+    definitions: UniversalRouterInputDefinition[];
+    allowRevert?: boolean;
+  }[];
+  inputs: string[];
+  chainId?: number;
+}): Promise<Arg[]> => {
+  return await Promise.all(
+    steps.map(async ({ definitions, allowRevert }, i) => {
+      const input = inputs[i] ?? "0x";
+      const { name, decoded } = await decodeUniversalRouterStep({
+        definitions,
+        input,
+        chainId,
+      });
+
       return {
-        functionName: parsedTransaction.fragment.name,
-        signature: parsedTransaction.signature,
-        rawArgs: parsedTransaction.args,
-        args: await Promise.all(
-          parsedTransaction.fragment.inputs.map(async (input, i) => {
-            const value = parsedTransaction!.args[i];
-
-            return {
-              name: input.name,
-              baseType: input.baseType,
-              type: input.type,
-              rawValue: value,
-              value: await decodeParamTypes({
-                input,
-                value,
-                address,
-                chainId,
-                abi,
-              }),
-            };
-          })
-        ),
+        name: `#${i} ${name}${allowRevert ? " (allow revert)" : ""}`,
+        baseType: "bytes",
+        type: "bytes",
+        rawValue: input,
+        value: { decoded },
       };
+    })
+  );
+};
+
+const decodeUniversalRouterStep = async ({
+  definitions,
+  input,
+  chainId,
+}: {
+  definitions: UniversalRouterInputDefinition[];
+  input: string;
+  chainId?: number;
+}): Promise<{ name: string; decoded: DecodeRecursiveResult }> => {
+  for (const definition of definitions) {
+    // raw calls to the position managers
+    if (definition.kind === "calldata") {
+      const decoded = await decodeRecursive({ calldata: input, chainId });
+      if (decoded) {
+        return { name: definition.name, decoded };
+      }
+      continue;
     }
-  } else {
-    return null;
+
+    const result = decodeUniversalRouterInput(definition, input);
+    if (!result) {
+      continue;
+    }
+    const { params, decoded } = result;
+
+    let args: Arg[];
+    if (definition.kind === "subPlan") {
+      args = await decodeUniversalRouterSteps({
+        steps: parseUniversalRouterCommands(decoded[0]),
+        inputs: decoded[1],
+        chainId,
+      });
+    } else if (definition.kind === "v4Swap") {
+      args = await decodeUniversalRouterSteps({
+        steps: parseV4Actions(decoded[0]).map((action) => ({
+          definitions: [action],
+        })),
+        inputs: decoded[1],
+        chainId,
+      });
+    } else {
+      args = await Promise.all(
+        params.map(async (param, i) => ({
+          name: param.name,
+          baseType: param.baseType,
+          type: param.type,
+          rawValue: decoded[i],
+          value:
+            param.name === "path" && param.type === "bytes"
+              ? await decodeV3PathParam(decoded[i])
+              : await decodeParamTypes({
+                  input: param,
+                  value: decoded[i],
+                  chainId,
+                }),
+        }))
+      );
+    }
+
+    return {
+      name: definition.name,
+      decoded: {
+        functionName: definition.name,
+        signature: `${definition.name}(${params
+          .map((param) => param.format())
+          .join(",")})`,
+        rawArgs: decoded,
+        args,
+      },
+    };
   }
-}
 
-const decodeParamTypes = async ({
+  // unknown input layout, decoded like any other bytes
+  return {
+    name: definitions.map((definition) => definition.name).join(" / "),
+    decoded: await decodeRecursive({ calldata: input, chainId }),
+  };
+};
+
+const decodeV3PathParam = async (
+  value: string
+): Promise<DecodeBytesParamResult> => {
+  try {
+    return {
+      decoded: await decodeParsedTransaction({
+        parsedTransaction: decodeUniversalRouterPath(value),
+      }),
+    };
+  } catch {
+    return await decodeBytesParam({ value });
+  }
+};
+
+export const decodeParamTypes = async ({
   input,
   value,
   address,
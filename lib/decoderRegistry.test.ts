@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+import { CalldataDecoder, createDecoderRegistry } from "./decoderRegistry";
+
+const decoder = (
+  name: string,
+  priority: number,
+  decode: CalldataDecoder["decode"],
+  canDecode: CalldataDecoder["canDecode"] = () => true
+): CalldataDecoder => ({ name, priority, canDecode, decode });
+
+describe("createDecoderRegistry", () => {
+  it("keeps decoders sorted by priority", () => {
+    const registry = createDecoderRegistry();
+    registry.register(decoder("low", 1, () => null));
+    registry.register(decoder("high", 10, () => null));
+    registry.register(decoder("mid", 5, () => null));
+
+    expect(registry.getDecoders().map((d) => d.name)).toEqual([
+      "high",
+      "mid",
+      "low",
+    ]);
+  });
+
+  it("replaces a decoder registered with the same name", () => {
+    const registry = createDecoderRegistry();
+    registry.register(decoder("abi", 1, () => "old"));
+    registry.register(decoder("abi", 2, () => "new"));
+
+    expect(registry.getDecoders()).toHaveLength(1);
+    expect(registry.getDecoders()[0].priority).toBe(2);
+  });
+
+  it("returns the first result in priority order", async () => {
+    const registry = createDecoderRegistry();
+    const low = vi.fn(() => "low");
+    registry.register(decoder("low", 1, low));
+    registry.register(decoder("high", 10, async () => "high"));
+
+    expect(await registry.decode("0x")).toBe("high");
+    expect(low).not.toHaveBeenCalled();
+  });
+
+  it("skips decoders that can't decode, return null or throw", async () => {
+    const registry = createDecoderRegistry();
+    const skipped = vi.fn(() => "skipped");
+    registry.register(decoder("skipped", 4, skipped, () => false));
+    registry.register(decoder("empty", 3, () => null));
+    registry.register(
+      decoder("throws", 2, () => {
+        throw new Error("invalid calldata");
+      })
+    );
+    registry.register(decoder("fallback", 1, () => "fallback"));
+
+    expect(await registry.decode("0x1234")).toBe("fallback");
+    expect(skipped).not.toHaveBeenCalled();
+  });
+
+  it("returns null when no decoder succeeds", async () => {
+    const registry = createDecoderRegistry();
+    registry.register(decoder("empty", 1, () => null));
+    registry.register(decoder("removed", 2, () => "removed"));
+    registry.unregister("removed");
+
+    expect(await registry.decode("0x")).toBeNull();
+  });
+});
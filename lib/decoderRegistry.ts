@@ -0,0 +1,63 @@
+import { ParsedTransaction } from "@/types";
+import { TransactionDescription } from "ethers";
+
+export type CalldataDecoderResult =
+  | ParsedTransaction
+  | TransactionDescription
+  | any;
+
+export type CalldataDecoder = {
+  name: string;
+  // decoders with a higher priority are tried first
+  priority: number;
+  // cheap check on the shape of the calldata, before decode is attempted
+  canDecode: (calldata: string) => boolean;
+  // throws or returns null when the calldata isn't what the decoder expects
+  decode: (
+    calldata: string
+  ) => CalldataDecoderResult | Promise<CalldataDecoderResult>;
+};
+
+export type DecoderRegistry = ReturnType<typeof createDecoderRegistry>;
+
+export const createDecoderRegistry = () => {
+  let decoders: CalldataDecoder[] = [];
+
+  // registering a decoder with an existing name replaces it
+  const register = (decoder: CalldataDecoder) => {
+    decoders = [
+      ...decoders.filter((d) => d.name !== decoder.name),
+      decoder,
+    ].sort((a, b) => b.priority - a.priority);
+  };
+
+  const unregister = (name: string) => {
+    decoders = decoders.filter((d) => d.name !== name);
+  };
+
+  const getDecoders = () => [...decoders];
+
+  // first successful result wins, in priority order
+  const decode = async (
+    calldata: string
+  ): Promise<CalldataDecoderResult | null> => {
+    for (const decoder of decoders) {
+      if (!decoder.canDecode(calldata)) continue;
+
+      try {
+        const result = await decoder.decode(calldata);
+        if (result) {
+          return result;
+        }
+      } catch (error) {
+        console.log(
+          `Decoder ${decoder.name} failed:`,
+          (error as Error).message
+        );
+      }
+    }
+    return null;
+  };
+
+  return { register, unregister, getDecoders, decode };
+};
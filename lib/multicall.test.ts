@@ -0,0 +1,124 @@
+import { Interface } from "ethers";
+import { describe, expect, it } from "vitest";
+import { getMulticallCalls } from "./multicall";
+
+const target = "0x1111111111111111111111111111111111111111";
+const other = "0x2222222222222222222222222222222222222222";
+
+// Multicall3 as returned by explorers
+const multicall3JsonAbi = [
+  {
+    name: "aggregate3",
+    type: "function",
+    stateMutability: "payable",
+    inputs: [
+      {
+        name: "calls",
+        type: "tuple[]",
+        internalType: "struct Multicall3.Call3[]",
+        components: [
+          { name: "target", type: "address" },
+          { name: "allowFailure", type: "bool" },
+          { name: "callData", type: "bytes" },
+        ],
+      },
+    ],
+    outputs: [],
+  },
+  {
+    name: "tryAggregate",
+    type: "function",
+    stateMutability: "payable",
+    inputs: [
+      { name: "requireSuccess", type: "bool" },
+      {
+        name: "calls",
+        type: "tuple[]",
+        components: [
+          { name: "target", type: "address" },
+          { name: "callData", type: "bytes" },
+        ],
+      },
+    ],
+    outputs: [],
+  },
+];
+
+const parse = (abi: any, functionName: string, args: any[]) => {
+  const iface = new Interface(abi);
+  return iface.parseTransaction({
+    data: iface.encodeFunctionData(functionName, args),
+  })!;
+};
+
+describe("getMulticallCalls", () => {
+  it("pairs aggregate3 targets with their calldata from a JSON ABI", () => {
+    const parsed = parse(multicall3JsonAbi, "aggregate3", [
+      [
+        [target, true, "0x12345678"],
+        [other, false, "0xabcdef01"],
+      ],
+    ]);
+
+    expect(getMulticallCalls(parsed)).toEqual({
+      index: 0,
+      calls: [
+        { target, allowFailure: true, callData: "0x12345678" },
+        { target: other, allowFailure: false, callData: "0xabcdef01" },
+      ],
+    });
+  });
+
+  it("applies tryAggregate's requireSuccess to every call", () => {
+    const parsed = parse(multicall3JsonAbi, "tryAggregate", [
+      false,
+      [[target, "0x12345678"]],
+    ]);
+
+    expect(getMulticallCalls(parsed)?.calls).toEqual([
+      { target, allowFailure: true, callData: "0x12345678" },
+    ]);
+  });
+
+  it("decodes aggregate3Value from a human readable signature", () => {
+    const parsed = parse(
+      [
+        "function aggregate3Value((address target,bool allowFailure,uint256 value,bytes callData)[] calls)",
+      ],
+      "aggregate3Value",
+      [[[target, true, BigInt(5), "0x12345678"]]]
+    );
+
+    expect(getMulticallCalls(parsed)?.calls).toEqual([
+      {
+        target,
+        allowFailure: true,
+        value: BigInt(5),
+        callData: "0x12345678",
+      },
+    ]);
+  });
+
+  it("targets the called contract for multicall(bytes[])", () => {
+    const parsed = parse(
+      ["function multicall(uint256 deadline, bytes[] data)"],
+      "multicall",
+      [BigInt(1), ["0x12345678"]]
+    );
+
+    expect(getMulticallCalls(parsed, target)).toEqual({
+      index: 1,
+      calls: [{ target, callData: "0x12345678" }],
+    });
+  });
+
+  it("ignores functions that only share the name", () => {
+    const parsed = parse(
+      ["function aggregate(uint256[] values)"],
+      "aggregate",
+      [[BigInt(1)]]
+    );
+
+    expect(getMulticallCalls(parsed)).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import { ParsedTransaction } from "@/types";
+
+export type MulticallCall = {
+  // unknown for self multicalls when the contract address isn't known
+  target?: string;
+  allowFailure?: boolean;
+  value?: bigint;
+  callData: string;
+};
+
+export type MulticallCalls = {
+  // index of the param holding the calls
+  index: number;
+  calls: MulticallCall[];
+};
+
+// Multicall3 (and Multicall2) aggregate functions: https://github.com/mds1/multicall
+// Uniswap and OpenZeppelin `multicall(bytes[])` call the contract itself
+export const getMulticallCalls = (
+  parsedTransaction: ParsedTransaction,
+  address?: string
+): MulticallCalls | null => {
+  const { fragment, args } = parsedTransaction;
+  // canonical types, JSON ABIs only report tuples as `tuple` or `tuple[]`
+  const types = fragment.inputs.map((input) => input.format()).join(",");
+
+  switch (fragment.name) {
+    case "aggregate":
+    case "blockAndAggregate":
+      if (types !== "(address,bytes)[]") return null;
+      return {
+        index: 0,
+        calls: args[0].map(([target, callData]: any[]) => ({
+          target,
+          callData,
+        })),
+      };
+    case "tryAggregate":
+    case "tryBlockAndAggregate":
+      if (types !== "bool,(address,bytes)[]") return null;
+      return {
+        index: 1,
+        calls: args[1].map(([target, callData]: any[]) => ({
+          target,
+          // requireSuccess applies to every call
+          allowFailure: !args[0],
+          callData,
+        })),
+      };
+    case "aggregate3":
+      if (types !== "(address,bool,bytes)[]") return null;
+      return {
+        index: 0,
+        calls: args[0].map(([target, allowFailure, callData]: any[]) => ({
+          target,
+          allowFailure,
+          callData,
+        })),
+      };
+    case "aggregate3Value":
+      if (types !== "(address,bool,uint256,bytes)[]") return null;
+      return {
+        index: 0,
+        calls: args[0].map(
+          ([target, allowFailure, value, callData]: any[]) => ({
+            target,
+            allowFailure,
+            value,
+            callData,
+          })
+        ),
+      };
+    case "multicall":
+      // optionally preceded by a deadline or the previous blockhash
+      if (!["bytes[]", "uint256,bytes[]", "bytes32,bytes[]"].includes(types))
+        return null;
+      return {
+        index: fragment.inputs.length - 1,
+        calls: args[fragment.inputs.length - 1].map((callData: string) => ({
+          target: address,
+          callData,
+        })),
+      };
+    default:
+      return null;
+  }
+};
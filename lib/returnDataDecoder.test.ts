@@ -0,0 +1,129 @@
+import { Interface } from "ethers";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// @/utils pulls in browser only dependencies, only these are used
+vi.mock("@/utils", () => ({
+  startHexWith0x: (value?: string) =>
+    value ? (value.startsWith("0x") ? value : `0x${value}`) : "0x",
+  fetchContractAbi: vi.fn(),
+}));
+
+import { decodeReturnData } from "./returnDataDecoder";
+
+const token = "0x1111111111111111111111111111111111111111";
+
+const abi = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "error FailedCall(address target, bytes reason)",
+];
+const abiInterface = new Interface(abi);
+const builtins = new Interface(["error Error(string)", "error Panic(uint256)"]);
+
+describe("decodeReturnData", () => {
+  beforeEach(() => {
+    // everything here decodes offline
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() => Promise.reject(new Error("unexpected fetch")))
+    );
+  });
+
+  it("returns null for empty data", async () => {
+    expect(await decodeReturnData({ data: "0x" })).toBeNull();
+  });
+
+  it("decodes Error(string) reverts", async () => {
+    const result = await decodeReturnData({
+      data: builtins.encodeErrorResult("Error", ["Not enough balance"]),
+    });
+
+    expect(result?.kind).toBe("error");
+    expect(result?.decoded.args[0]).toMatchObject({
+      name: "message",
+      value: "Not enough balance",
+    });
+  });
+
+  it("decodes Panic(uint256) reverts with the reason", async () => {
+    const result = await decodeReturnData({
+      data: builtins.encodeErrorResult("Panic", [0x11]),
+    });
+
+    expect(result?.kind).toBe("panic");
+    expect(result?.decoded.args.map((arg) => arg.value)).toEqual([
+      "17",
+      "arithmetic underflow or overflow",
+    ]);
+  });
+
+  it("decodes custom errors and the revert they bubble up", async () => {
+    const reason = builtins.encodeErrorResult("Error", ["Paused"]);
+    const result = await decodeReturnData({
+      data: abiInterface.encodeErrorResult("FailedCall", [token, reason]),
+      abi,
+    });
+
+    expect(result?.kind).toBe("customError");
+    expect(result?.decoded.signature).toBe("FailedCall(address,bytes)");
+    expect(result?.decoded.args[1].value).toMatchObject({
+      decoded: { functionName: "Error", args: [{ value: "Paused" }] },
+    });
+  });
+
+  it("looks up custom errors in openchain's error signatures", async () => {
+    const unknownError = new Interface([
+      "error InsufficientShares(address owner, uint256 shares)",
+    ]);
+    const data = unknownError.encodeErrorResult("InsufficientShares", [
+      token,
+      BigInt(7),
+    ]);
+    const selector = data.slice(0, 10);
+    // no function shares the selector, only the error lookup knows it
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: URL | string) => ({
+        json: async () =>
+          url.toString().includes("openchain")
+            ? {
+                ok: true,
+                result: {
+                  function: {},
+                  event: {},
+                  error: url.toString().includes("error=")
+                    ? {
+                        [selector]: [
+                          {
+                            name: "InsufficientShares(address,uint256)",
+                            filtered: false,
+                          },
+                        ],
+                      }
+                    : {},
+                },
+              }
+            : { count: 0, results: [] },
+      }))
+    );
+
+    const result = await decodeReturnData({ data });
+
+    expect(result?.kind).toBe("customError");
+    expect(result?.decoded.signature).toBe(
+      "InsufficientShares(address,uint256)"
+    );
+    expect(result?.decoded.args[1].value).toBe("7");
+  });
+
+  it("decodes return values with the function from the calldata", async () => {
+    const result = await decodeReturnData({
+      data: abiInterface.encodeFunctionResult("balanceOf", [BigInt(42)]),
+      calldata: abiInterface.encodeFunctionData("balanceOf", [token]),
+      abi,
+    });
+
+    expect(result?.kind).toBe("return");
+    expect(result?.decoded.functionName).toBe("balanceOf");
+    expect(result?.decoded.args[0].value).toBe("42");
+  });
+});
@@ -0,0 +1,314 @@
+import { Arg, DecodeRecursiveResult, SignatureCandidate } from "@/types";
+import { fetchContractAbi } from "@/utils";
+import { guessAbiEncodedData } from "@openchainxyz/abi-guesser";
+import {
+  AbiCoder,
+  ErrorDescription,
+  Interface,
+  InterfaceAbi,
+  ParamType,
+  Result,
+} from "ethers";
+import {
+  decodeParamTypes,
+  decodeRecursive,
+  fetchErrorSignatures,
+  rankDecodedTransactions,
+} from "./decoder";
+
+export type DecodeReturnDataResult = {
+  kind: "error" | "panic" | "customError" | "return";
+  decoded: NonNullable<DecodeRecursiveResult>;
+} | null;
+
+// Error(string) and Panic(uint256) are built into solidity
+const ERROR_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+// https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+export const panicReasons: { [code: number]: string } = {
+  0x00: "generic compiler inserted panic",
+  0x01: "assertion failed",
+  0x11: "arithmetic underflow or overflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "incorrectly encoded storage byte array",
+  0x31: "pop() on an empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to a zero-initialized internal function",
+};
+
+// decodes what a call returned or reverted with, the calldata is needed to decode return values
+export async function decodeReturnData({
+  data,
+  calldata,
+  address,
+  chainId,
+  abi,
+}: {
+  data: string;
+  calldata?: string;
+  address?: string;
+  chainId?: number;
+  abi?: InterfaceAbi;
+}): Promise<DecodeReturnDataResult> {
+  if (data.length <= 2) {
+    return null;
+  }
+
+  const selector = data.slice(0, 10).toLowerCase();
+  const abiCoder = AbiCoder.defaultAbiCoder();
+
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const [message] = abiCoder.decode(["string"], "0x" + data.slice(10));
+      return {
+        kind: "error",
+        decoded: {
+          functionName: "Error",
+          signature: "Error(string)",
+          rawArgs: [message],
+          args: [
+            {
+              name: "message",
+              baseType: "string",
+              type: "string",
+              rawValue: message,
+              value: message,
+            },
+          ],
+        },
+      };
+    }
+
+    if (selector === PANIC_SELECTOR) {
+      const [code] = abiCoder.decode(["uint256"], "0x" + data.slice(10));
+      return {
+        kind: "panic",
+        decoded: {
+          functionName: "Panic",
+          signature: "Panic(uint256)",
+          rawArgs: [code],
+          args: [
+            {
+              name: "code",
+              baseType: "uint256",
+              type: "uint256",
+              rawValue: code,
+              value: code.toString(),
+            },
+            {
+              name: "reason",
+              baseType: "string",
+              type: "string",
+              rawValue: "",
+              value: panicReasons[Number(code)] ?? "unknown panic code",
+            },
+          ],
+        },
+      };
+    }
+  } catch (error) {
+    console.error(`Failed to decode builtin error ${selector}`, error);
+  }
+
+  const abiInterface = await getInterface({ abi, address, chainId });
+
+  // custom errors and return values from the contract's ABI
+  if (abiInterface) {
+    try {
+      const error = abiInterface.parseError(data);
+      if (error) {
+        return {
+          kind: "customError",
+          decoded: await decodeErrorDescription({ error, chainId }),
+        };
+      }
+    } catch {}
+
+    if (calldata) {
+      try {
+        const transaction = abiInterface.parseTransaction({ data: calldata });
+        if (transaction) {
+          const values = abiInterface.decodeFunctionResult(
+            transaction.fragment,
+            data
+          );
+          return {
+            kind: "return",
+            decoded: {
+              functionName: transaction.name,
+              signature: transaction.signature,
+              rawArgs: values,
+              args: await decodeValues({
+                params: transaction.fragment.outputs,
+                values,
+                chainId,
+              }),
+            },
+          };
+        }
+      } catch (error) {
+        console.error("Failed to decode return data with ABI", error);
+      }
+    }
+  }
+
+  // selector followed by whole words, an error unknown to the ABI
+  if ((data.length - 10) % 64 === 0) {
+    const decoded = await decodeErrorWithSelector({ data, chainId });
+    if (decoded) {
+      return { kind: "customError", decoded };
+    }
+  }
+
+  // plain abi encoded return values
+  try {
+    const paramTypes = guessAbiEncodedData(data);
+    if (paramTypes) {
+      const values = abiCoder.decode(paramTypes, data);
+      return {
+        kind: "return",
+        decoded: {
+          functionName: "__abi_decoded__",
+          signature: "abi.encode",
+          rawArgs: values,
+          args: await decodeValues({ params: paramTypes, values, chainId }),
+        },
+      };
+    }
+  } catch (error) {
+    console.error("Failed to guess return data types", error);
+  }
+
+  return null;
+}
+
+const getInterface = async ({
+  abi,
+  address,
+  chainId,
+}: {
+  abi?: InterfaceAbi;
+  address?: string;
+  chainId?: number;
+}) => {
+  try {
+    if (abi) {
+      return new Interface(abi);
+    }
+    if (address && chainId) {
+      const fetchedAbi = await fetchContractAbi({ address, chainId });
+      return new Interface(fetchedAbi.abi);
+    }
+  } catch (error) {
+    console.error("Failed to get ABI for return data", error);
+  }
+  return null;
+};
+
+// errors share the 4 bytes selector namespace with functions in the signature
+// databases, openchain also has a lookup for errors only
+const decodeErrorWithSelector = async ({
+  data,
+  chainId,
+}: {
+  data: string;
+  chainId?: number;
+}): Promise<DecodeRecursiveResult> => {
+  const selector = data.slice(0, 10);
+  console.log(`Decoding error with selector ${selector}`);
+
+  const candidates = await fetchErrorSignatures({ selector });
+  const errors: { error: ErrorDescription; candidate: SignatureCandidate }[] =
+    [];
+  for (const candidate of candidates) {
+    try {
+      const abiInterface = new Interface([`error ${candidate.signature}`]);
+      const error = abiInterface.parseError(data);
+      if (error) {
+        const reencoded = abiInterface.encodeErrorResult(
+          error.fragment,
+          error.args
+        );
+        errors.push({
+          error,
+          candidate: {
+            ...candidate,
+            roundTrip: reencoded.toLowerCase() === data.toLowerCase(),
+          },
+        });
+      }
+    } catch {
+      console.error(
+        `Failed to decode error with signature ${candidate.signature}, skipping`
+      );
+    }
+  }
+  if (errors.length === 0) {
+    return null;
+  }
+
+  const [result, ...alternatives] = await Promise.all(
+    rankDecodedTransactions(errors).map(async ({ error, candidate }) => ({
+      ...(await decodeErrorDescription({ error, chainId })),
+      candidate,
+    }))
+  );
+  return { ...result, alternatives };
+};
+
+const decodeErrorDescription = async ({
+  error,
+  chainId,
+}: {
+  error: ErrorDescription;
+  chainId?: number;
+}): Promise<NonNullable<DecodeRecursiveResult>> => ({
+  functionName: error.name,
+  signature: error.signature,
+  rawArgs: error.args,
+  args: await decodeValues({
+    params: error.fragment.inputs,
+    values: error.args,
+    chainId,
+  }),
+});
+
+const decodeValues = async ({
+  params,
+  values,
+  chainId,
+}: {
+  params: readonly ParamType[];
+  values: Result;
+  chainId?: number;
+}): Promise<Arg[]> =>
+  await Promise.all(
+    params.map(async (param, i) => ({
+      name: param.name,
+      baseType: param.baseType,
+      type: param.type,
+      rawValue: values[i],
+      value:
+        param.type === "bytes"
+          ? await decodeNestedBytes({ value: values[i], chainId })
+          : await decodeParamTypes({ input: param, value: values[i], chainId }),
+    }))
+  );
+
+// bytes in an error are usually the revert data of an inner call being bubbled up
+const decodeNestedBytes = async ({
+  value,
+  chainId,
+}: {
+  value: string;
+  chainId?: number;
+}) => {
+  const nested = await decodeReturnData({ data: value, chainId });
+  if (nested && nested.kind !== "return") {
+    return { decoded: nested.decoded };
+  }
+  return { decoded: await decodeRecursive({ calldata: value }) };
+};
@@ -0,0 +1,101 @@
+import { AbiCoder } from "ethers";
+import { describe, expect, it } from "vitest";
+import {
+  decodeUniversalRouterCommands,
+  decodeUniversalRouterInput,
+  decodeUniversalRouterPath,
+  parseUniversalRouterCommands,
+  parseV4Actions,
+  universalRouterCommands,
+} from "./universalRouter";
+
+const weth = "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2";
+const usdc = "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48";
+const dai = "0x6b175474e89094c44da98b954eedeac495271d0f";
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+describe("parseUniversalRouterCommands", () => {
+  it("splits commands and reads the allow revert flag", () => {
+    const parsed = parseUniversalRouterCommands("0x0b8004");
+
+    expect(
+      parsed.map(({ command, allowRevert }) => [command, allowRevert])
+    ).toEqual([
+      [0x0b, false],
+      [0x00, true],
+      [0x04, false],
+    ]);
+    expect(decodeUniversalRouterCommands("0x0b8004").args.toArray()).toEqual([
+      [
+        "WRAP_ETH",
+        "V3_SWAP_EXACT_IN (allow revert)",
+        universalRouterCommands[0x04].map((d) => d.name).join(" / "),
+      ],
+    ]);
+  });
+
+  it("throws on unknown commands and odd lengths", () => {
+    expect(() => parseUniversalRouterCommands("0x3f")).toThrow();
+    expect(() => parseUniversalRouterCommands("0x0")).toThrow();
+    expect(() => parseUniversalRouterCommands("0x")).toThrow();
+  });
+});
+
+describe("parseV4Actions", () => {
+  it("maps each byte to a V4 action", () => {
+    expect(parseV4Actions("0x060c0f").map((action) => action.name)).toEqual([
+      "SWAP_EXACT_IN_SINGLE",
+      "SETTLE_ALL",
+      "TAKE_ALL",
+    ]);
+    expect(() => parseV4Actions("0xff")).toThrow();
+  });
+});
+
+describe("decodeUniversalRouterInput", () => {
+  const [v4Swap, seaport] = universalRouterCommands[0x10];
+
+  it("tells apart commands sharing a byte by re-encoding", () => {
+    const v4Input = abiCoder.encode(
+      ["bytes", "bytes[]"],
+      ["0x060c0f", ["0x1234", "0x5678", "0x9abc"]]
+    );
+    const seaportInput = abiCoder.encode(
+      ["uint256", "bytes"],
+      [BigInt(1), "0x1234"]
+    );
+
+    expect(decodeUniversalRouterInput(v4Swap, v4Input)?.decoded[0]).toBe(
+      "0x060c0f"
+    );
+    expect(decodeUniversalRouterInput(seaport, v4Input)).toBeNull();
+    expect(decodeUniversalRouterInput(seaport, seaportInput)?.decoded[0]).toBe(
+      BigInt(1)
+    );
+    expect(decodeUniversalRouterInput(v4Swap, seaportInput)).toBeNull();
+  });
+
+  it("returns null for raw calldata inputs", () => {
+    const [, positionManagerCall] = universalRouterCommands[0x12];
+    expect(decodeUniversalRouterInput(positionManagerCall, "0x")).toBeNull();
+  });
+});
+
+describe("decodeUniversalRouterPath", () => {
+  it("decodes every hop of a V3 path", () => {
+    const path = weth + "0001f4" + usdc.slice(2) + "000064" + dai.slice(2);
+
+    const decoded = decodeUniversalRouterPath(path);
+
+    expect(decoded.signature).toBe(
+      "path(address,uint24,address,uint24,address)"
+    );
+    expect(decoded.args.toArray()).toEqual([weth, "500", usdc, "100", dai]);
+  });
+
+  it("throws when the path isn't whole hops", () => {
+    expect(() => decodeUniversalRouterPath(weth)).toThrow();
+    expect(() => decodeUniversalRouterPath(weth + "0001f4")).toThrow();
+  });
+});
@@ -0,0 +1,497 @@
+import { ParsedTransaction } from "@/types";
+import { AbiCoder, FunctionFragment, ParamType, Result } from "ethers";
+import { hexToBigInt } from "viem";
+
+export type UniversalRouterInputDefinition = {
+  name: string;
+  // abi encoded inputs, `calldata` inputs are a raw call to another contract
+  kind: "abi" | "calldata" | "subPlan" | "v4Swap";
+  inputs?: string[];
+};
+
+// high bit of a command byte lets the command revert without reverting the whole execution
+const FLAG_ALLOW_REVERT = 0x80;
+const COMMAND_TYPE_MASK = 0x3f;
+
+const poolKey =
+  "tuple(address currency0,address currency1,uint24 fee,int24 tickSpacing,address hooks) poolKey";
+const pathKeys =
+  "tuple(address intermediateCurrency,uint24 fee,int24 tickSpacing,address hooks,bytes hookData)[] path";
+const permitDetails =
+  "tuple(address token,uint160 amount,uint48 expiration,uint48 nonce)";
+
+const abi = (
+  name: string,
+  inputs: string[]
+): UniversalRouterInputDefinition => ({
+  name,
+  kind: "abi",
+  inputs,
+});
+
+// https://github.com/Uniswap/universal-router/blob/main/contracts/libraries/Commands.sol
+// v1 (NFT marketplaces) and v2 (Uniswap V4) reuse some command bytes, both are tried
+export const universalRouterCommands: {
+  [command: number]: UniversalRouterInputDefinition[];
+} = {
+  0x00: [
+    abi("V3_SWAP_EXACT_IN", [
+      "address recipient",
+      "uint256 amountIn",
+      "uint256 amountOutMin",
+      "bytes path",
+      "bool payerIsUser",
+    ]),
+  ],
+  0x01: [
+    abi("V3_SWAP_EXACT_OUT", [
+      "address recipient",
+      "uint256 amountOut",
+      "uint256 amountInMax",
+      "bytes path",
+      "bool payerIsUser",
+    ]),
+  ],
+  0x02: [
+    abi("PERMIT2_TRANSFER_FROM", [
+      "address token",
+      "address recipient",
+      "uint160 amount",
+    ]),
+  ],
+  0x03: [
+    abi("PERMIT2_PERMIT_BATCH", [
+      `tuple(${permitDetails}[] details,address spender,uint256 sigDeadline) permitBatch`,
+      "bytes signature",
+    ]),
+  ],
+  0x04: [
+    abi("SWEEP", ["address token", "address recipient", "uint256 amountMin"]),
+  ],
+  0x05: [
+    abi("TRANSFER", ["address token", "address recipient", "uint256 value"]),
+  ],
+  0x06: [
+    abi("PAY_PORTION", ["address token", "address recipient", "uint256 bips"]),
+  ],
+  0x08: [
+    abi("V2_SWAP_EXACT_IN", [
+      "address recipient",
+      "uint256 amountIn",
+      "uint256 amountOutMin",
+      "address[] path",
+      "bool payerIsUser",
+    ]),
+  ],
+  0x09: [
+    abi("V2_SWAP_EXACT_OUT", [
+      "address recipient",
+      "uint256 amountOut",
+      "uint256 amountInMax",
+      "address[] path",
+      "bool payerIsUser",
+    ]),
+  ],
+  0x0a: [
+    abi("PERMIT2_PERMIT", [
+      `tuple(${permitDetails} details,address spender,uint256 sigDeadline) permitSingle`,
+      "bytes signature",
+    ]),
+  ],
+  0x0b: [abi("WRAP_ETH", ["address recipient", "uint256 amountMin"])],
+  0x0c: [abi("UNWRAP_WETH", ["address recipient", "uint256 amountMin"])],
+  0x0d: [
+    abi("PERMIT2_TRANSFER_FROM_BATCH", [
+      "tuple(address from,address to,uint160 amount,address token)[] batchDetails",
+    ]),
+  ],
+  0x0e: [
+    abi("BALANCE_CHECK_ERC20", [
+      "address owner",
+      "address token",
+      "uint256 minBalance",
+    ]),
+  ],
+  0x10: [
+    {
+      name: "V4_SWAP",
+      kind: "v4Swap",
+      inputs: ["bytes actions", "bytes[] params"],
+    },
+    abi("SEAPORT_V1_5", ["uint256 value", "bytes data"]),
+  ],
+  0x11: [
+    abi("LOOKS_RARE_V2", ["uint256 value", "bytes data"]),
+    { name: "V3_POSITION_MANAGER_PERMIT", kind: "calldata" },
+  ],
+  0x12: [
+    abi("NFTX", ["uint256 value", "bytes data"]),
+    { name: "V3_POSITION_MANAGER_CALL", kind: "calldata" },
+  ],
+  0x13: [
+    abi("V4_INITIALIZE_POOL", [poolKey, "uint160 sqrtPriceX96"]),
+    abi("CRYPTOPUNKS", [
+      "uint256 punkId",
+      "address recipient",
+      "uint256 value",
+    ]),
+  ],
+  0x14: [{ name: "V4_POSITION_MANAGER_CALL", kind: "calldata" }],
+  0x15: [
+    abi("OWNER_CHECK_721", ["address owner", "address token", "uint256 id"]),
+  ],
+  0x16: [
+    abi("OWNER_CHECK_1155", [
+      "address owner",
+      "address token",
+      "uint256 id",
+      "uint256 minBalance",
+    ]),
+  ],
+  0x17: [
+    abi("SWEEP_ERC721", ["address token", "address recipient", "uint256 id"]),
+  ],
+  0x18: [
+    abi("X2Y2_721", [
+      "uint256 value",
+      "bytes data",
+      "address recipient",
+      "address token",
+      "uint256 id",
+    ]),
+  ],
+  0x19: [abi("SUDOSWAP", ["uint256 value", "bytes data"])],
+  0x1a: [abi("NFT20", ["uint256 value", "bytes data"])],
+  0x1b: [
+    abi("X2Y2_1155", [
+      "uint256 value",
+      "bytes data",
+      "address recipient",
+      "address token",
+      "uint256 id",
+      "uint256 amount",
+    ]),
+  ],
+  0x1c: [
+    abi("FOUNDATION", [
+      "uint256 value",
+      "bytes data",
+      "address recipient",
+      "address token",
+      "uint256 id",
+    ]),
+  ],
+  0x1d: [
+    abi("SWEEP_ERC1155", [
+      "address token",
+      "address recipient",
+      "uint256 id",
+      "uint256 amount",
+    ]),
+  ],
+  0x1e: [abi("ELEMENT_MARKET", ["uint256 value", "bytes data"])],
+  0x20: [abi("SEAPORT_V1_4", ["uint256 value", "bytes data"])],
+  0x21: [
+    {
+      name: "EXECUTE_SUB_PLAN",
+      kind: "subPlan",
+      inputs: ["bytes commands", "bytes[] inputs"],
+    },
+  ],
+  0x22: [abi("APPROVE_ERC20", ["address token", "uint8 spender"])],
+};
+
+// https://github.com/Uniswap/v4-periphery/blob/main/src/libraries/Actions.sol
+export const v4Actions: { [action: number]: UniversalRouterInputDefinition } = {
+  0x00: abi("INCREASE_LIQUIDITY", [
+    "uint256 tokenId",
+    "uint256 liquidity",
+    "uint128 amount0Max",
+    "uint128 amount1Max",
+    "bytes hookData",
+  ]),
+  0x01: abi("DECREASE_LIQUIDITY", [
+    "uint256 tokenId",
+    "uint256 liquidity",
+    "uint128 amount0Min",
+    "uint128 amount1Min",
+    "bytes hookData",
+  ]),
+  0x02: abi("MINT_POSITION", [
+    poolKey,
+    "int24 tickLower",
+    "int24 tickUpper",
+    "uint256 liquidity",
+    "uint128 amount0Max",
+    "uint128 amount1Max",
+    "address owner",
+    "bytes hookData",
+  ]),
+  0x03: abi("BURN_POSITION", [
+    "uint256 tokenId",
+    "uint128 amount0Min",
+    "uint128 amount1Min",
+    "bytes hookData",
+  ]),
+  0x04: abi("INCREASE_LIQUIDITY_FROM_DELTAS", [
+    "uint256 tokenId",
+    "uint128 amount0Max",
+    "uint128 amount1Max",
+    "bytes hookData",
+  ]),
+  0x05: abi("MINT_POSITION_FROM_DELTAS", [
+    poolKey,
+    "int24 tickLower",
+    "int24 tickUpper",
+    "uint128 amount0Max",
+    "uint128 amount1Max",
+    "address owner",
+    "bytes hookData",
+  ]),
+  0x06: abi("SWAP_EXACT_IN_SINGLE", [
+    `tuple(${poolKey},bool zeroForOne,uint128 amountIn,uint128 amountOutMinimum,bytes hookData) params`,
+  ]),
+  0x07: abi("SWAP_EXACT_IN", [
+    `tuple(address currencyIn,${pathKeys},uint128 amountIn,uint128 amountOutMinimum) params`,
+  ]),
+  0x08: abi("SWAP_EXACT_OUT_SINGLE", [
+    `tuple(${poolKey},bool zeroForOne,uint128 amountOut,uint128 amountInMaximum,bytes hookData) params`,
+  ]),
+  0x09: abi("SWAP_EXACT_OUT", [
+    `tuple(address currencyOut,${pathKeys},uint128 amountOut,uint128 amountInMaximum) params`,
+  ]),
+  0x0a: abi("DONATE", [
+    poolKey,
+    "uint256 amount0",
+    "uint256 amount1",
+    "bytes hookData",
+  ]),
+  0x0b: abi("SETTLE", [
+    "address currency",
+    "uint256 amount",
+    "bool payerIsUser",
+  ]),
+  0x0c: abi("SETTLE_ALL", ["address currency", "uint256 maxAmount"]),
+  0x0d: abi("SETTLE_PAIR", ["address currency0", "address currency1"]),
+  0x0e: abi("TAKE", [
+    "address currency",
+    "address recipient",
+    "uint256 amount",
+  ]),
+  0x0f: abi("TAKE_ALL", ["address currency", "uint256 minAmount"]),
+  0x10: abi("TAKE_PORTION", [
+    "address currency",
+    "address recipient",
+    "uint256 bips",
+  ]),
+  0x11: abi("TAKE_PAIR", [
+    "address currency0",
+    "address currency1",
+    "address recipient",
+  ]),
+  0x12: abi("CLOSE_CURRENCY", ["address currency"]),
+  0x13: abi("CLEAR_OR_TAKE", ["address currency", "uint256 amountMax"]),
+  0x14: abi("SWEEP", ["address currency", "address to"]),
+  0x15: abi("WRAP", ["uint256 amount"]),
+  0x16: abi("UNWRAP", ["uint256 amount"]),
+  0x17: abi("MINT_6909", ["address currency", "address to", "uint256 amount"]),
+  0x18: abi("BURN_6909", [
+    "address currency",
+    "address from",
+    "uint256 amount",
+  ]),
+};
+
+export type UniversalRouterCommand = {
+  command: number;
+  allowRevert: boolean;
+  definitions: UniversalRouterInputDefinition[];
+};
+
+// splits the `commands` bytes, throws on unknown commands
+export const parseUniversalRouterCommands = (
+  commands: string
+): UniversalRouterCommand[] => {
+  // remove initial "0x"
+  const commandsBytes = commands.slice(2);
+  if (commandsBytes.length === 0 || commandsBytes.length % 2 !== 0) {
+    throw new Error("Failed to decode calldata as UniversalRouter commands");
+  }
+
+  const parsed: UniversalRouterCommand[] = [];
+  for (let i = 0; i < commandsBytes.length; i += 2) {
+    const commandByte = parseInt(commandsBytes.slice(i, i + 2), 16);
+    const command = commandByte & COMMAND_TYPE_MASK;
+    const definitions = universalRouterCommands[command];
+    if (Number.isNaN(commandByte) || definitions === undefined) {
+      throw new Error("Failed to decode calldata as UniversalRouter commands");
+    }
+    parsed.push({
+      command,
+      allowRevert: (commandByte & FLAG_ALLOW_REVERT) !== 0,
+      definitions,
+    });
+  }
+  return parsed;
+};
+
+// same layout for the V4_SWAP actions, one byte per action
+export const parseV4Actions = (actions: string) => {
+  const actionsBytes = actions.slice(2);
+
+  const parsed: UniversalRouterInputDefinition[] = [];
+  for (let i = 0; i < actionsBytes.length; i += 2) {
+    const action = v4Actions[parseInt(actionsBytes.slice(i, i + 2), 16)];
+    if (action === undefined) {
+      throw new Error("Failed to decode V4_SWAP actions");
+    }
+    parsed.push(action);
+  }
+  return parsed;
+};
+
+// decodes an input with the definition's ABI, null if it doesn't match exactly
+export const decodeUniversalRouterInput = (
+  definition: UniversalRouterInputDefinition,
+  input: string
+) => {
+  if (!definition.inputs) {
+    return null;
+  }
+
+  try {
+    const params = definition.inputs.map((input) => ParamType.from(input));
+    const abiCoder = AbiCoder.defaultAbiCoder();
+    const decoded = abiCoder.decode(params, input);
+    // re-encoding tells apart commands sharing a byte
+    if (
+      abiCoder.encode(params, decoded).toLowerCase() !== input.toLowerCase()
+    ) {
+      return null;
+    }
+    return { params, decoded };
+  } catch {
+    return null;
+  }
+};
+
+// V3 paths are tokenA (20 bytes), fee (3 bytes), tokenB (20 bytes), and so on for every hop
+export const decodeUniversalRouterPath = (calldata: string) => {
+  try {
+    // remove initial "0x"
+    const path = calldata.slice(2);
+
+    const tokenLength = 20 * 2; // address
+    const hopLength = 3 * 2 + tokenLength; // uint24 + address
+    if (
+      path.length <= tokenLength ||
+      (path.length - tokenLength) % hopLength !== 0
+    ) {
+      throw new Error("Failed to decode calldata as UniversalRouter path");
+    }
+
+    const tokens = ["0x" + path.slice(0, tokenLength)];
+    const fees: string[] = [];
+    for (let i = tokenLength; i < path.length; i += hopLength) {
+      fees.push(hexToBigInt(`0x${path.slice(i, i + 3 * 2)}`).toString());
+      tokens.push("0x" + path.slice(i + 3 * 2, i + hopLength));
+    }
+
+    const inputs = tokens.flatMap((_, i) =>
+      i < fees.length
+        ? [
+            { name: `token${i}`, type: "address" },
+            { name: `fee${i}`, type: "uint24" },
+          ]
+        : [{ name: `token${i}`, type: "address" }]
+    );
+    const fragment = FunctionFragment.from({
+      name: "path",
+      type: "function",
+      stateMutability: "nonpayable",
+      inputs,
+      outputs: [],
+    });
+
+    const result = {
+      name: "",
+      args: new Result(
+        ...tokens.flatMap((token, i) =>
+          i < fees.length ? [token, fees[i]] : [token]
+        )
+      ),
+      signature: fragment.format(),
+      selector: "",
+      value: BigInt(0),
+      fragment,
+    } satisfies ParsedTransaction;
+    console.log({ decodeUniversalRouterPath: result });
+    return result;
+  } catch (error) {
+    console.error(error);
+    throw new Error(`Failed to decode calldata as UniversalRouter path`);
+  }
+};
+
+export const decodeUniversalRouterCommands = (calldata: string) => {
+  try {
+    const commands = parseUniversalRouterCommands(calldata).map(
+      ({ definitions, allowRevert }) =>
+        definitions.map((definition) => definition.name).join(" / ") +
+        (allowRevert ? " (allow revert)" : "")
+    );
+
+    const result = {
+      name: "",
+      args: new Result(commands),
+      signature: "commands(string[])",
+      selector: "",
+      value: BigInt(0),
+      fragment: {
+        name: "",
+        type: "function",
+        stateMutability: "nonpayable",
+        inputs: [
+          {
+            name: "commands",
+            type: "string[]",
+            indexed: null,
+            components: null,
+            arrayLength: -1,
+            arrayChildren: {
+              name: null,
+              type: "string",
+              indexed: null,
+              components: null,
+              arrayLength: null,
+              arrayChildren: null,
+              baseType: "string",
+              _isParamType: true,
+            },
+            baseType: "array",
+            _isParamType: true,
+          },
+        ],
+        outputs: [],
+      },
+    };
+    console.log({ decodeUniversalRouterCommands: result });
+    return result;
+  } catch (error) {
+    console.error(error);
+    throw new Error(`Failed to decode calldata as UniversalRouter commands`);
+  }
+};
+
+// execute(bytes commands, bytes[] inputs) and execute(bytes commands, bytes[] inputs, uint256 deadline)
+export const isUniversalRouterExecute = (
+  parsedTransaction: ParsedTransaction
+) => {
+  const types = parsedTransaction.fragment.inputs.map((input) => input.type);
+  return (
+    parsedTransaction.fragment.name === "execute" &&
+    types[0] === "bytes" &&
+    types[1] === "bytes[]" &&
+    (types.length === 2 || (types.length === 3 && types[2] === "uint256"))
+  );
+};
@@ -49,7 +49,7 @@ const subdomains = {
   },
   WALLET: {
     base: "wallet",
-    paths: ["bridge", "signatures"],
+    paths: ["bridge", "signatures", "owners"],
   },
   ENS: {
     base: "ens",
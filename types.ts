@@ -58,8 +58,24 @@ export type DecodeArrayParamResult =
       value: DecodeParamTypesResult;
     }[];
 
+// Function signature found for a selector
+export type SignatureCandidate = {
+  signature: string;
+  sources: ("openchain" | "4byte")[];
+  /** Not filtered as spam by openchain */
+  verified: boolean;
+  /** Number of sources listing the signature, not how widely it's used */
+  sourceCount: number;
+  /** 4byte registration id, the lower the earlier it was submitted */
+  fourByteId?: number;
+  /** Re-encoding the decoded args gives back the exact calldata */
+  roundTrip?: boolean;
+};
+
 export interface ParsedTransaction extends TransactionDescription {
   txType?: "safeMultiSend";
+  candidate?: SignatureCandidate;
+  alternatives?: ParsedTransaction[];
 }
 
 export type DecodeParamTypesResult =
@@ -81,6 +97,10 @@ export type DecodeRecursiveResult = {
   signature: string;
   rawArgs: any;
   args: Arg[];
+  /** Set when decoded by selector */
+  candidate?: SignatureCandidate;
+  /** Other signatures matching the selector, best ranked first */
+  alternatives?: NonNullable<DecodeRecursiveResult>[];
 } | null;
 
 export type HighlightedText = {